@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ACCUMULATION_SIZE,
+  accumulationSlot,
+  unwrapCoverage,
+} from './accumulation';
+
+const n = ACCUMULATION_SIZE;
+
+describe('accumulationSlot', () => {
+  test('is the texel index modulo the window size', () => {
+    expect(accumulationSlot(0)).toBe(0);
+    expect(accumulationSlot(n - 1)).toBe(n - 1);
+    expect(accumulationSlot(n)).toBe(0);
+    expect(accumulationSlot(3 * n + 5)).toBe(5);
+  });
+
+  test('stays positive for negative indices', () => {
+    expect(accumulationSlot(-1)).toBe(n - 1);
+    expect(accumulationSlot(-n)).toBe(0);
+    expect(accumulationSlot(-n - 1)).toBe(n - 1);
+  });
+});
+
+describe('unwrapCoverage', () => {
+  test('reads the window from its slots, north-up', () => {
+    const slots = new Float32Array(n * n);
+    // World texel (originX, originY) lives in slot (n - 2, 1).
+    const window = { texelSize: 1 / 1024, originX: -2, originY: 1 };
+    slots[1 * n + (n - 2)] = 0.75;
+    const coverage = unwrapCoverage(slots, window);
+    expect(coverage.data[0]).toBe(0.75);
+    expect(coverage.width).toBe(n);
+  });
+});
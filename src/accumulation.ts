@@ -0,0 +1,147 @@
+/**
+ * Ground cover built up from where particles land.
+ *
+ * Coverage lives on a square grid of ACCUMULATION_SIZE² texels with a fixed
+ * mercator texel size, picked when accumulation starts. The grid is a
+ * window that follows the view in whole texels and is addressed
+ * toroidally: world texel (i, j) is stored in slot (i mod n, j mod n), so
+ * panning never moves stored coverage, only clears the slots that wrap
+ * around to the newly exposed edge.
+ */
+import type { GeoBounds } from './fields';
+import { mercatorYToLat, particleCountForDensity } from './shared';
+
+/** Coverage grid resolution (texels per side) */
+export const ACCUMULATION_SIZE = 256;
+
+/** Grid extent relative to the view box when the texel size is picked */
+const ACCUMULATION_COVERAGE = 1.5;
+
+export interface AccumulationOptions {
+  /**
+   * Coverage gained per second of steady snow at the default density and
+   * intensity (default: 0.01)
+   */
+  buildRate?: number;
+  /** Coverage lost per second (default: 0.002) */
+  meltRate?: number;
+  /** Upper limit for coverage, 0–1 (default: 0.8) */
+  maxCoverage?: number;
+}
+
+/** Grid window: mercator texel size and the world texel at its min corner */
+export interface AccumulationWindow {
+  texelSize: number;
+  originX: number;
+  originY: number;
+}
+
+/** Per-frame accumulation inputs for the backends, applied every step */
+export interface AccumulationFrame {
+  window: AccumulationWindow;
+  /** Coverage added per landed particle */
+  perHit: number;
+  /** Coverage removed per simulation step */
+  melt: number;
+  maxCoverage: number;
+  /** Wipe all coverage this frame (reset, or a new texel size) */
+  clear: boolean;
+}
+
+/** Coverage read back from the GPU, row 0 at the northern edge */
+export interface AccumulationCoverage {
+  data: Float32Array;
+  width: number;
+  height: number;
+  bounds: GeoBounds;
+}
+
+/** Texel size for a view box of the given half span, in mercator units. */
+export function accumulationTexelSize(halfSpan: number): number {
+  return (halfSpan * 2 * ACCUMULATION_COVERAGE) / ACCUMULATION_SIZE;
+}
+
+/** Window of the given texel size centred on a mercator position. */
+export function accumulationWindow(
+  texelSize: number,
+  cx: number,
+  cy: number,
+): AccumulationWindow {
+  return {
+    texelSize,
+    originX: Math.floor(cx / texelSize) - ACCUMULATION_SIZE / 2,
+    originY: Math.floor(cy / texelSize) - ACCUMULATION_SIZE / 2,
+  };
+}
+
+/** Slot holding a world texel index: positive modulo ACCUMULATION_SIZE. */
+export function accumulationSlot(index: number): number {
+  const n = ACCUMULATION_SIZE;
+  return ((index % n) + n) % n;
+}
+
+/**
+ * Coverage added per landed particle, normalised so steady, uniform snow at
+ * the default density falling at `referenceFall` (merc-units/step) raises
+ * every texel by `buildRate` per second. Denser or faster precipitation then
+ * builds up proportionally faster.
+ */
+export function coveragePerHit(
+  buildRate: number,
+  fps: number,
+  halfSpan: number,
+  altSpan: number,
+  texelSize: number,
+  referenceFall: number,
+): number {
+  // Particles fall through the volume's altitude span and are spread over
+  // the (2 · halfSpan)² view box.
+  const landings = (particleCountForDensity(0.5) * referenceFall) / altSpan;
+  const hitsPerTexel =
+    (landings * texelSize * texelSize) / (4 * halfSpan * halfSpan);
+  return hitsPerTexel > 0 ? buildRate / fps / hitsPerTexel : 0;
+}
+
+/** Reorder toroidally stored slots into a north-up grid with its bounds. */
+export function unwrapCoverage(
+  slots: Float32Array,
+  window: AccumulationWindow,
+): AccumulationCoverage {
+  const n = ACCUMULATION_SIZE;
+  const data = new Float32Array(n * n);
+  for (let j = 0; j < n; j++) {
+    const sy = accumulationSlot(window.originY + j);
+    for (let i = 0; i < n; i++) {
+      const sx = accumulationSlot(window.originX + i);
+      data[j * n + i] = slots[sy * n + sx]!;
+    }
+  }
+  const { texelSize, originX, originY } = window;
+  const minX = originX * texelSize;
+  const minY = originY * texelSize;
+  const size = n * texelSize;
+  return {
+    data,
+    width: n,
+    height: n,
+    bounds: [
+      minX * 360 - 180,
+      mercatorYToLat(minY + size),
+      (minX + size) * 360 - 180,
+      mercatorYToLat(minY),
+    ],
+  };
+}
+
+/** Fill in defaults; false / undefined turns accumulation off. */
+export function resolveAccumulation(
+  options: boolean | AccumulationOptions | undefined,
+): Required<AccumulationOptions> | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  return {
+    buildRate: o.buildRate ?? 0.01,
+    meltRate: o.meltRate ?? 0.002,
+    maxCoverage: Math.max(0, Math.min(1, o.maxCoverage ?? 0.8)),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Flake appearance: built-in crystal shapes or a sprite atlas, a size
+ * distribution and per-particle spin and tumble.
+ *
+ * Nothing extra is stored per particle. The shaders hash each particle's
+ * index into a separate random stream per property (see FLAKE_STREAM), so
+ * its shape or sprite cell, size, start angle and spin and tumble rates are
+ * independent of each other and of its fall speed.
+ */
+
+export type FlakeShape = 'disc' | 'plate' | 'dendrite';
+
+export interface FlakeSprites {
+  /** Atlas image: a URL, or an image that is already loaded */
+  image: string | ImageBitmap | HTMLImageElement | HTMLCanvasElement;
+  /** Cells per row (default: 1) */
+  columns?: number;
+  /** Rows of cells (default: 1) */
+  rows?: number;
+}
+
+export interface FlakeAppearance {
+  /** Built-in shape, or several mixed evenly (default: 'disc') */
+  shape?: FlakeShape | FlakeShape[];
+  /** Sprite atlas, one random cell per flake; shapes show until it loads */
+  sprites?: FlakeSprites;
+  /**
+   * Size multiplier on `flakeSize`: a [min, max] range, or a curve mapping
+   * a uniform 0–1 random number to a multiplier (default: [1, 1])
+   */
+  size?: [number, number] | ((t: number) => number);
+  /** Fastest spin in degrees per second, either way (default: 90) */
+  spin?: number;
+  /** Fastest tumble (turning edge-on and back) in turns/s (default: 0.5) */
+  tumble?: number;
+}
+
+/** Samples of the size curve handed to the shaders */
+export const SIZE_CURVE_SAMPLES = 64;
+
+/** Appearance as the backends take it */
+export interface FlakeStyle {
+  /** Cumulative shares of disc, plate and dendrite flakes */
+  shapeMix: [number, number, number];
+  /** Size multiplier per random sample, as a fraction of sizeMax */
+  sizeCurve: Uint8Array;
+  sizeMax: number;
+  /** Fastest spin, radians per second */
+  spin: number;
+  /** Fastest tumble, radians of turn per second */
+  tumble: number;
+}
+
+/** A loaded sprite atlas, flipped so row 0 is at the bottom */
+export interface SpriteAtlas {
+  image: ImageBitmap;
+  columns: number;
+  rows: number;
+}
+
+const SHAPES: FlakeShape[] = ['disc', 'plate', 'dendrite'];
+
+/** Fill in defaults; without `appearance` flakes are plain, still discs. */
+export function resolveAppearance(appearance?: FlakeAppearance): FlakeStyle {
+  const shapes = appearance?.shape ?? 'disc';
+  const picked = Array.isArray(shapes) ? shapes : [shapes];
+  const counts = SHAPES.map(
+    (shape) => picked.filter((s) => s === shape).length,
+  );
+  const total = picked.length || 1;
+  const disc = picked.length ? counts[0]! / total : 1;
+  const plate = disc + counts[1]! / total;
+
+  const size = appearance?.size ?? [1, 1];
+  const curve =
+    typeof size === 'function'
+      ? size
+      : (t: number) => size[0] + (size[1] - size[0]) * t;
+  const samples = Array.from({ length: SIZE_CURVE_SAMPLES }, (_, i) =>
+    Math.max(0, curve(i / (SIZE_CURVE_SAMPLES - 1)) || 0),
+  );
+  const sizeMax = Math.max(...samples) || 1;
+
+  return {
+    shapeMix: [disc, plate, 1],
+    sizeCurve: Uint8Array.from(samples, (v) => Math.round((v / sizeMax) * 255)),
+    sizeMax,
+    spin: appearance ? ((appearance.spin ?? 90) * Math.PI) / 180 : 0,
+    tumble: appearance ? (appearance.tumble ?? 0.5) * 2 * Math.PI : 0,
+  };
+}
+
+/** Fetch and decode a sprite atlas. */
+export async function loadSprites(sprites: FlakeSprites): Promise<SpriteAtlas> {
+  const source =
+    typeof sprites.image === 'string'
+      ? await fetch(sprites.image).then((res) => {
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          return res.blob();
+        })
+      : sprites.image;
+  // Flipped to match texture UVs (v up) in both backends.
+  const image = await createImageBitmap(source, {
+    imageOrientation: 'flipY',
+    premultiplyAlpha: 'none',
+  });
+  return {
+    image,
+    columns: Math.max(1, Math.floor(sprites.columns ?? 1)),
+    rows: Math.max(1, Math.floor(sprites.rows ?? 1)),
+  };
+}
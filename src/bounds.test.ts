@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test';
+import type { Polygon } from 'geojson';
+import {
+  rasterizeBounds,
+  sampleBoundsMask,
+  spawnRect,
+  type BoundsMask,
+} from './bounds';
+import { lngLatToMercator } from './shared';
+
+function square(west: number, south: number, east: number, north: number) {
+  return [
+    [west, south],
+    [east, south],
+    [east, north],
+    [west, north],
+    [west, south],
+  ];
+}
+
+function coverage(mask: BoundsMask, lng: number, lat: number): number {
+  const { x, y } = lngLatToMercator(lng, lat);
+  return sampleBoundsMask(mask, x, y);
+}
+
+describe('rasterizeBounds', () => {
+  test('leaves holes empty', () => {
+    const polygon: Polygon = {
+      type: 'Polygon',
+      coordinates: [square(-10, -10, 10, 10), square(-5, -5, 5, 5)],
+    };
+    const mask = rasterizeBounds(polygon);
+    expect(coverage(mask, 0, 0)).toBe(0);
+    expect(coverage(mask, 7.5, 0)).toBe(1);
+    expect(coverage(mask, 0, -7.5)).toBe(1);
+    expect(coverage(mask, 20, 0)).toBe(0);
+  });
+
+  test('fills the parts of a multipolygon, even-odd where they overlap', () => {
+    const mask = rasterizeBounds({
+      type: 'MultiPolygon',
+      coordinates: [[square(0, 0, 10, 10)], [square(5, 0, 15, 10)]],
+    });
+    expect(coverage(mask, 2.5, 5)).toBe(1);
+    expect(coverage(mask, 12.5, 5)).toBe(1);
+    expect(coverage(mask, 7.5, 5)).toBe(0);
+  });
+
+  test('keeps the border texels empty', () => {
+    const mask = rasterizeBounds({
+      type: 'Polygon',
+      coordinates: [square(-10, -10, 10, 10)],
+    });
+    expect(mask.data[0]).toBe(0);
+    expect(mask.data[mask.data.length - 1]).toBe(0);
+  });
+
+  test('covers nothing without polygons', () => {
+    const mask = rasterizeBounds({ type: 'FeatureCollection', features: [] });
+    expect(mask.data.every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe('spawnRect', () => {
+  test('is the view box when looking straight down', () => {
+    const rect = spawnRect(0.5, 0.5, 0.1, 0, 0, null);
+    expect(rect.minX).toBeCloseTo(0.4);
+    expect(rect.maxX).toBeCloseTo(0.6);
+    expect(rect.minY).toBeCloseTo(0.4);
+    expect(rect.maxY).toBeCloseTo(0.6);
+    expect(rect.fraction).toBeCloseTo(1);
+  });
+
+  test('reaches towards the horizon along the bearing', () => {
+    // 60° pitch: 1 / cos = 2 halfSpans ahead, widening to match.
+    const north = spawnRect(0.5, 0.5, 0.1, 60, 0, null);
+    expect(north.minY).toBeCloseTo(0.3);
+    expect(north.maxY).toBeCloseTo(0.6);
+    expect(north.minX).toBeCloseTo(0.3);
+    expect(north.maxX).toBeCloseTo(0.7);
+    expect(north.fraction).toBeCloseTo(3);
+
+    const east = spawnRect(0.5, 0.5, 0.1, 60, 90, null);
+    expect(east.minX).toBeCloseTo(0.4);
+    expect(east.maxX).toBeCloseTo(0.7);
+  });
+
+  test('clips to the bounds mask', () => {
+    const mask: BoundsMask = {
+      minX: 0.5,
+      minY: 0.5,
+      size: 0.5,
+      data: new Uint8Array(0),
+    };
+    const rect = spawnRect(0.5, 0.5, 0.1, 0, 0, mask);
+    expect(rect.minX).toBeCloseTo(0.5);
+    expect(rect.minY).toBeCloseTo(0.5);
+    expect(rect.maxX).toBeCloseTo(0.6);
+    expect(rect.maxY).toBeCloseTo(0.6);
+    expect(rect.fraction).toBeCloseTo(0.25);
+
+    const away = spawnRect(0.2, 0.2, 0.1, 0, 0, mask);
+    expect(away.fraction).toBe(0);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Polygon bounds for the particle volume.
+ *
+ * GeoJSON polygons are rasterised once into a small coverage mask over their
+ * mercator bounding box. The backends sample the mask per particle to hide
+ * flakes outside the area, and spawn only where the bounding box overlaps the
+ * view volume. Changing the geometry just re-uploads the mask.
+ */
+import type { GeoJSON, Position } from 'geojson';
+import { lngLatToMercator, mercatorPerMeter, mercatorYToLat } from './shared';
+
+/** GeoJSON (Polygon/MultiPolygon, or features holding them) or a source ID */
+export type SnowBounds = GeoJSON | string;
+
+/** Mask resolution (texels per side) */
+export const BOUNDS_MASK_SIZE = 256;
+
+export interface BoundsMask {
+  /** Mercator x of the mask's west edge */
+  minX: number;
+  /** Mercator y of the mask's north edge */
+  minY: number;
+  /** Mercator extent of the (square) mask */
+  size: number;
+  /** BOUNDS_MASK_SIZE² coverage values, row 0 at minY */
+  data: Uint8Array;
+}
+
+export interface SpawnRect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  /**
+   * Area relative to the flat view box (center ± halfSpan); above 1 when
+   * pitch stretches the volume towards the horizon
+   */
+  fraction: number;
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON → mercator rings
+// ---------------------------------------------------------------------------
+
+function collectPolygons(geojson: GeoJSON, out: Position[][][]): void {
+  switch (geojson.type) {
+    case 'Polygon':
+      out.push(geojson.coordinates);
+      break;
+    case 'MultiPolygon':
+      out.push(...geojson.coordinates);
+      break;
+    case 'GeometryCollection':
+      for (const g of geojson.geometries) collectPolygons(g, out);
+      break;
+    case 'Feature':
+      if (geojson.geometry) collectPolygons(geojson.geometry, out);
+      break;
+    case 'FeatureCollection':
+      for (const f of geojson.features) collectPolygons(f, out);
+      break;
+    default:
+      // Points and lines have no area.
+      break;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rasterisation
+// ---------------------------------------------------------------------------
+
+// Separable sliding-window box blur, in place. Two passes approximate a
+// gaussian. Samples past the border clamp to the edge texel.
+function boxBlur(src: Float32Array, n: number, radius: number): void {
+  const tmp = new Float32Array(src.length);
+  const span = radius * 2 + 1;
+  const at = (buf: Float32Array, base: number, stride: number, k: number) =>
+    buf[base + Math.min(n - 1, Math.max(0, k)) * stride]!;
+  const blurLine = (
+    from: Float32Array,
+    to: Float32Array,
+    base: number,
+    stride: number,
+  ) => {
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) sum += at(from, base, stride, k);
+    for (let i = 0; i < n; i++) {
+      to[base + i * stride] = sum / span;
+      sum +=
+        at(from, base, stride, i + radius + 1) -
+        at(from, base, stride, i - radius);
+    }
+  };
+  for (let pass = 0; pass < 2; pass++) {
+    for (let j = 0; j < n; j++) blurLine(src, tmp, j * n, 1);
+    for (let i = 0; i < n; i++) blurLine(tmp, src, i, n);
+  }
+}
+
+/**
+ * Rasterise the polygons in `geojson` into a coverage mask. Holes and
+ * multi-part polygons use the even-odd rule. `fadeMeters` feathers the edge
+ * over roughly that width. GeoJSON without polygons yields an all-zero mask,
+ * i.e. no snow anywhere.
+ */
+export function rasterizeBounds(geojson: GeoJSON, fadeMeters = 0): BoundsMask {
+  const n = BOUNDS_MASK_SIZE;
+  const polygons: Position[][][] = [];
+  collectPolygons(geojson, polygons);
+
+  const rings: Array<Array<{ x: number; y: number }>> = [];
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      const merc = ring.map(([lng, lat]) => lngLatToMercator(lng!, lat!));
+      for (const p of merc) {
+        minX = Math.min(minX, p.x);
+        minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
+      }
+      rings.push(merc);
+    }
+  }
+  if (rings.length === 0) {
+    return { minX: 0, minY: 0, size: 1, data: new Uint8Array(n * n) };
+  }
+
+  // Square mask around the bbox, padded by the fade width plus two texels so
+  // the border texels are always empty (clamp-to-edge then reads 0 outside).
+  const centerLat = mercatorYToLat((minY + maxY) / 2);
+  const fade = Math.max(0, fadeMeters) * mercatorPerMeter(centerLat);
+  const extent = Math.max(maxX - minX, maxY - minY, 1e-9) + fade * 2;
+  const size = (extent * n) / (n - 4);
+  const originX = (minX + maxX) / 2 - size / 2;
+  const originY = (minY + maxY) / 2 - size / 2;
+  const texel = size / n;
+
+  // Scanline fill at texel centres.
+  const coverage = new Float32Array(n * n);
+  const xs: number[] = [];
+  for (let j = 0; j < n; j++) {
+    const y = originY + (j + 0.5) * texel;
+    xs.length = 0;
+    for (const ring of rings) {
+      for (let k = 0; k < ring.length; k++) {
+        const a = ring[k]!;
+        const b = ring[(k + 1) % ring.length]!;
+        if (a.y <= y !== b.y <= y) {
+          xs.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+    }
+    xs.sort((p, q) => p - q);
+    for (let k = 0; k + 1 < xs.length; k += 2) {
+      const i0 = Math.max(0, Math.ceil((xs[k]! - originX) / texel - 0.5));
+      const i1 = Math.min(
+        n - 1,
+        Math.floor((xs[k + 1]! - originX) / texel - 0.5),
+      );
+      for (let i = i0; i <= i1; i++) coverage[j * n + i] = 1;
+    }
+  }
+
+  // Two box passes of radius r spread the edge over about 4r texels.
+  const radius = Math.round(fade / texel / 4);
+  if (radius > 0) boxBlur(coverage, n, radius);
+
+  const data = new Uint8Array(n * n);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round(coverage[i]! * 255);
+  }
+  return { minX: originX, minY: originY, size, data };
+}
+
+// ---------------------------------------------------------------------------
+// Spawn volume
+// ---------------------------------------------------------------------------
+
+/** Farthest the volume reaches towards the horizon, in halfSpans */
+const MAX_STRETCH = 4;
+
+/**
+ * The particle volume's footprint: the view box (center ± halfSpan),
+ * reaching 1 / cos(pitch) halfSpans ahead along the bearing and widening
+ * with it like the view frustum, as its axis-aligned bounding box.
+ * Intersected with the mask's bounding box when there are bounds.
+ * `fraction` lets the backends show the matching share of particles so the
+ * density stays the same whatever the volume's size.
+ */
+export function spawnRect(
+  centerX: number,
+  centerY: number,
+  halfSpan: number,
+  pitch: number,
+  bearing: number,
+  mask: BoundsMask | null,
+): SpawnRect {
+  const reach =
+    halfSpan *
+    Math.min(
+      MAX_STRETCH,
+      1 / Math.max(1e-3, Math.cos((pitch * Math.PI) / 180)),
+    );
+  // Forward (towards the top of the screen) and right, in mercator: y grows
+  // southwards.
+  const b = (bearing * Math.PI) / 180;
+  const fx = Math.sin(b);
+  const fy = -Math.cos(b);
+  const corners = [
+    [-halfSpan, -halfSpan],
+    [-halfSpan, halfSpan],
+    [reach, -reach],
+    [reach, reach],
+  ];
+  const view = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+  for (const [ahead = 0, side = 0] of corners) {
+    const x = centerX + fx * ahead - fy * side;
+    const y = centerY + fy * ahead + fx * side;
+    view.minX = Math.min(view.minX, x);
+    view.minY = Math.min(view.minY, y);
+    view.maxX = Math.max(view.maxX, x);
+    view.maxY = Math.max(view.maxY, y);
+  }
+  const flatArea = 4 * halfSpan * halfSpan;
+  if (!mask) {
+    const area = (view.maxX - view.minX) * (view.maxY - view.minY);
+    return { ...view, fraction: area / flatArea };
+  }
+  const minX = Math.max(view.minX, mask.minX);
+  const minY = Math.max(view.minY, mask.minY);
+  const maxX = Math.min(view.maxX, mask.minX + mask.size);
+  const maxY = Math.min(view.maxY, mask.minY + mask.size);
+  if (maxX <= minX || maxY <= minY) return { ...view, fraction: 0 };
+  const fraction = ((maxX - minX) * (maxY - minY)) / flatArea;
+  return { minX, minY, maxX, maxY, fraction };
+}
+
+/**
+ * How to spread the particles over a volume that grew since the last step
+ * (zooming out, pitching): per axis, x' = toX + (x - fromX) · scaleX, and
+ * the height above ground times scaleZ. Axes that did not grow keep scale
+ * 1; particles outside a shrunken volume wrap around into it instead.
+ */
+export interface VolumeGrowth {
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+  scaleX: number;
+  scaleY: number;
+  scaleZ: number;
+}
+
+/** Growth from one spawn rect and altitude span to the next; null if none. */
+export function volumeGrowth(
+  from: SpawnRect,
+  fromAltSpan: number,
+  to: SpawnRect,
+  toAltSpan: number,
+): VolumeGrowth | null {
+  const grows = (before: number, after: number) =>
+    before > 0 && after > before * (1 + 1e-4);
+  const fromW = from.maxX - from.minX;
+  const fromH = from.maxY - from.minY;
+  const toW = to.maxX - to.minX;
+  const toH = to.maxY - to.minY;
+  const growX = grows(fromW, toW);
+  const growY = grows(fromH, toH);
+  const growZ = grows(fromAltSpan, toAltSpan);
+  if (!growX && !growY && !growZ) return null;
+  return {
+    fromX: growX ? from.minX : to.minX,
+    fromY: growY ? from.minY : to.minY,
+    toX: to.minX,
+    toY: to.minY,
+    scaleX: growX ? toW / fromW : 1,
+    scaleY: growY ? toH / fromH : 1,
+    scaleZ: growZ ? toAltSpan / fromAltSpan : 1,
+  };
+}
+
+/** Mask coverage 0–1 at a mercator position (nearest texel, 0 outside). */
+export function sampleBoundsMask(
+  mask: BoundsMask,
+  x: number,
+  y: number,
+): number {
+  const n = BOUNDS_MASK_SIZE;
+  const i = Math.floor(((x - mask.minX) / mask.size) * n);
+  const j = Math.floor(((y - mask.minY) / mask.size) * n);
+  if (i < 0 || j < 0 || i >= n || j >= n) return 0;
+  return mask.data[j * n + i]! / 255;
+}
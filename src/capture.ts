@@ -0,0 +1,188 @@
+/**
+ * Still frames and video of the map with its snow.
+ *
+ * Snow composited into the map (and the WebGL2 backend) is already part of
+ * MapLibre's canvas; the WebGPU overlay, fog included, is a canvas of its
+ * own on top. Both are copied into a 2D canvas from the map's `render`
+ * event, while the frame just drawn is still in their drawing buffers, so
+ * this works without `preserveDrawingBuffer`.
+ */
+import type { Map as MaplibreMap } from 'maplibre-gl';
+import { SnowLayerError } from './events';
+
+export interface CaptureOptions {
+  /** Output pixels per CSS pixel; the map is redrawn at it (default: the map's) */
+  pixelRatio?: number;
+  /** Image type (default: 'image/png') */
+  type?: string;
+  /** Quality 0–1 for lossy types such as 'image/jpeg' */
+  quality?: number;
+}
+
+export interface RecordingOptions {
+  /** Output pixels per CSS pixel (default: the map's pixel ratio) */
+  pixelRatio?: number;
+  /** Frames per second of the recorded stream (default: 30) */
+  frameRate?: number;
+  /** Video type, e.g. 'video/webm;codecs=vp9' (default: the browser's) */
+  mimeType?: string;
+  /** Video bitrate in bits per second (default: the browser's) */
+  videoBitsPerSecond?: number;
+}
+
+/** The overlay canvas to draw over the map, if any */
+export type OverlaySource = () => HTMLCanvasElement | null;
+
+// A 2D canvas at the map's CSS size times a pixel ratio.
+function createTarget(
+  map: MaplibreMap,
+  pixelRatio: number,
+): CanvasRenderingContext2D {
+  const container = map.getContainer();
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(container.clientWidth * pixelRatio));
+  canvas.height = Math.max(1, Math.round(container.clientHeight * pixelRatio));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new SnowLayerError('capture-failed', 'no 2D canvas context');
+  }
+  return context;
+}
+
+// Copy the map and the overlay, scaled to the target.
+function drawComposite(
+  context: CanvasRenderingContext2D,
+  map: MaplibreMap,
+  overlay: HTMLCanvasElement | null,
+): void {
+  const { width, height } = context.canvas;
+  context.clearRect(0, 0, width, height);
+  context.drawImage(map.getCanvas(), 0, 0, width, height);
+  if (overlay) context.drawImage(overlay, 0, 0, width, height);
+}
+
+/** Draw the next frame and encode the map with its snow as an image. */
+export async function captureMap(
+  map: MaplibreMap,
+  overlay: OverlaySource,
+  options: CaptureOptions = {},
+): Promise<Blob> {
+  const pixelRatio = options.pixelRatio ?? map.getPixelRatio();
+  const previous = map._overridePixelRatio;
+  const redraw = pixelRatio !== map.getPixelRatio();
+  if (redraw) map.setPixelRatio(pixelRatio);
+  let context: CanvasRenderingContext2D;
+  try {
+    context = createTarget(map, pixelRatio);
+    await new Promise<void>((resolve, reject) => {
+      map.once('render', () => {
+        try {
+          drawComposite(context, map, overlay());
+          resolve();
+        } catch (err) {
+          reject(err);
+        }
+      });
+      map.triggerRepaint();
+    });
+  } finally {
+    // null (or undefined) goes back to following devicePixelRatio.
+    if (redraw) map.setPixelRatio(previous as number);
+  }
+  return new Promise<Blob>((resolve, reject) => {
+    try {
+      context.canvas.toBlob(
+        (blob) =>
+          blob
+            ? resolve(blob)
+            : reject(
+                new SnowLayerError('capture-failed', 'the frame was empty'),
+              ),
+        options.type ?? 'image/png',
+        options.quality,
+      );
+    } catch (err) {
+      // A canvas tainted by cross-origin tiles cannot be read.
+      reject(
+        new SnowLayerError(
+          'capture-failed',
+          'the frame could not be read',
+          err,
+        ),
+      );
+    }
+  });
+}
+
+/**
+ * Records the map with its snow: every map frame is drawn into a canvas
+ * whose stream feeds a MediaRecorder.
+ */
+export class FrameRecorder {
+  private map: MaplibreMap;
+  private overlay: OverlaySource;
+  private context: CanvasRenderingContext2D;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private stopped: Promise<Blob>;
+
+  constructor(
+    map: MaplibreMap,
+    overlay: OverlaySource,
+    options: RecordingOptions = {},
+  ) {
+    if (typeof MediaRecorder === 'undefined') {
+      throw new SnowLayerError(
+        'capture-failed',
+        'MediaRecorder is not supported in this browser',
+      );
+    }
+    this.map = map;
+    this.overlay = overlay;
+    this.context = createTarget(map, options.pixelRatio ?? map.getPixelRatio());
+    const stream = this.context.canvas.captureStream(options.frameRate ?? 30);
+    try {
+      this.recorder = new MediaRecorder(stream, {
+        ...(options.mimeType !== undefined && { mimeType: options.mimeType }),
+        ...(options.videoBitsPerSecond !== undefined && {
+          videoBitsPerSecond: options.videoBitsPerSecond,
+        }),
+      });
+    } catch (err) {
+      throw new SnowLayerError(
+        'capture-failed',
+        'the recording could not start',
+        err,
+      );
+    }
+    this.stopped = new Promise<Blob>((resolve, reject) => {
+      this.recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) this.chunks.push(e.data);
+      };
+      this.recorder.onstop = () =>
+        resolve(new Blob(this.chunks, { type: this.recorder.mimeType }));
+      this.recorder.onerror = (e) =>
+        reject(new SnowLayerError('capture-failed', 'recording failed', e));
+    });
+    // Settled by stop(); keep an early failure from going unhandled.
+    this.stopped.catch(() => {});
+    map.on('render', this._onRender);
+    this.recorder.start();
+    map.triggerRepaint();
+  }
+
+  get recording(): boolean {
+    return this.recorder.state !== 'inactive';
+  }
+
+  /** Stop recording; resolves with the video. */
+  stop(): Promise<Blob> {
+    this.map.off('render', this._onRender);
+    if (this.recording) this.recorder.stop();
+    return this.stopped;
+  }
+
+  private _onRender = (): void => {
+    drawComposite(this.context, this.map, this.overlay());
+  };
+}
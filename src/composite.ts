@@ -0,0 +1,143 @@
+/**
+ * Draws the WebGPU backend's output into MapLibre's own framebuffer, so the
+ * snow sits at the custom layer's place in the style stack and flakes behind
+ * 3D buildings or terrain are hidden by the map's depth buffer.
+ *
+ * The WebGPU backend renders into an offscreen canvas twice the width of the
+ * map's drawing buffer (less under adaptive quality): colour in the left
+ * half and, in the right half, the window depth of the nearest flake packed
+ * into 24 bits of RGB. Each frame
+ * that canvas is uploaded as a texture and drawn as a fullscreen triangle
+ * that writes the unpacked depth, tested against the map's.
+ */
+import { SnowLayerError } from './events';
+import { createProgram, uniformLocation } from './snow-gl';
+
+// ---------------------------------------------------------------------------
+// Shaders
+// ---------------------------------------------------------------------------
+
+// Fullscreen triangle from gl_VertexID; no vertex buffers needed.
+const COMPOSITE_VS = `#version 300 es
+void main() {
+  vec2 corner = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(corner * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+const COMPOSITE_FS = `#version 300 es
+precision highp float;
+
+uniform sampler2D uCanvas;
+uniform vec2 uDrawingBuffer;
+// MapLibre's depth range for this layer (gl.DEPTH_RANGE).
+uniform vec2 uDepthRange;
+
+out vec4 fragColor;
+
+void main() {
+  // The canvas may be rendered below the drawing buffer's resolution.
+  ivec2 size = textureSize(uCanvas, 0);
+  int halfWidth = size.x / 2;
+  ivec2 px = ivec2(gl_FragCoord.xy * vec2(halfWidth, size.y) / uDrawingBuffer);
+  vec4 color = texelFetch(uCanvas, px, 0);
+  if (color.a <= 0.0) discard;
+  vec4 packed = texelFetch(uCanvas, px + ivec2(halfWidth, 0), 0);
+  // No flake here, only ground cover or fog: never hidden.
+  float depth = packed.a > 0.0
+    ? dot(packed.rgb, vec3(1.0, 1.0 / 255.0, 1.0 / 65025.0))
+    : 0.0;
+  gl_FragDepth = mix(uDepthRange.x, uDepthRange.y, depth);
+  fragColor = color;
+}
+`;
+
+// ---------------------------------------------------------------------------
+// Compositor
+// ---------------------------------------------------------------------------
+
+export class MapCompositor {
+  private gl: WebGL2RenderingContext | null = null;
+  private program: WebGLProgram | null = null;
+  private vao: WebGLVertexArrayObject | null = null;
+  private texture: WebGLTexture | null = null;
+
+  /** Throws a SnowLayerError when the program fails to build. */
+  init(gl: WebGL2RenderingContext): void {
+    try {
+      this.program = createProgram(gl, COMPOSITE_VS, COMPOSITE_FS);
+      this.vao = gl.createVertexArray();
+      this.texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, this.texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      this.gl = gl;
+    } catch (err) {
+      throw new SnowLayerError(
+        'init-failed',
+        'map compositor init failed',
+        err,
+      );
+    }
+  }
+
+  /**
+   * Draw the canvas into the current framebuffer. Only call inside the
+   * layer's render(): MapLibre resets its cached GL state afterwards.
+   */
+  draw(canvas: HTMLCanvasElement): void {
+    const gl = this.gl;
+    if (!gl || !this.program) return;
+
+    // WebGPU canvases are premultiplied; keep them that way.
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, canvas);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+
+    const depthRange = gl.getParameter(gl.DEPTH_RANGE) as Float32Array;
+    gl.enable(gl.DEPTH_TEST);
+    gl.depthFunc(gl.LEQUAL);
+    gl.depthMask(false);
+    gl.disable(gl.STENCIL_TEST);
+    gl.disable(gl.CULL_FACE);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    const program = this.program;
+    gl.useProgram(program);
+    gl.uniform1i(uniformLocation(gl, program, 'uCanvas'), 0);
+    gl.uniform2f(
+      uniformLocation(gl, program, 'uDrawingBuffer'),
+      gl.drawingBufferWidth,
+      gl.drawingBufferHeight,
+    );
+    gl.uniform2f(
+      uniformLocation(gl, program, 'uDepthRange'),
+      depthRange[0]!,
+      depthRange[1]!,
+    );
+    gl.bindVertexArray(this.vao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindVertexArray(null);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  dispose(): void {
+    const gl = this.gl;
+    if (!gl) return;
+    gl.deleteProgram(this.program);
+    gl.deleteVertexArray(this.vao);
+    gl.deleteTexture(this.texture);
+    this.gl = null;
+    this.program = null;
+    this.vao = null;
+    this.texture = null;
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import { SnowEvented, SnowLayerError } from './events';
+
+interface PingEvents {
+  ping: { type: 'ping'; n: number };
+}
+
+class Pinger extends SnowEvented<PingEvents> {
+  ping(n: number): void {
+    this._fire({ type: 'ping', n });
+  }
+}
+
+describe('SnowEvented', () => {
+  test('calls listeners until they are removed', () => {
+    const pinger = new Pinger();
+    const seen: number[] = [];
+    const listener = (e: { n: number }) => seen.push(e.n);
+    pinger.on('ping', listener);
+    pinger.ping(1);
+    pinger.ping(2);
+    pinger.off('ping', listener);
+    pinger.ping(3);
+    expect(seen).toEqual([1, 2]);
+  });
+
+  test('once() listens for the next event only', () => {
+    const pinger = new Pinger();
+    const seen: number[] = [];
+    pinger.once('ping', (e) => seen.push(e.n));
+    pinger.ping(1);
+    pinger.ping(2);
+    expect(seen).toEqual([1]);
+  });
+
+  test('off() removes a once() listener given the original', () => {
+    const pinger = new Pinger();
+    const seen: number[] = [];
+    const listener = (e: { n: number }) => seen.push(e.n);
+    pinger.once('ping', listener);
+    pinger.off('ping', listener);
+    pinger.ping(1);
+    expect(seen).toEqual([]);
+  });
+
+  test('off() removes one registration at a time', () => {
+    const pinger = new Pinger();
+    const seen: number[] = [];
+    const listener = (e: { n: number }) => seen.push(e.n);
+    pinger.on('ping', listener);
+    pinger.on('ping', listener);
+    pinger.off('ping', listener);
+    pinger.ping(1);
+    expect(seen).toEqual([1]);
+  });
+
+  test('listeners removing themselves do not skip the others', () => {
+    const pinger = new Pinger();
+    const seen: string[] = [];
+    pinger.once('ping', () => seen.push('a'));
+    pinger.on('ping', () => seen.push('b'));
+    pinger.ping(1);
+    pinger.ping(2);
+    expect(seen).toEqual(['a', 'b', 'b']);
+  });
+});
+
+describe('SnowLayerError', () => {
+  test('keeps its code and cause', () => {
+    const cause = new Error('no adapter');
+    const error = new SnowLayerError('webgpu-unsupported', 'no WebGPU', cause);
+    expect(error.name).toBe('SnowLayerError');
+    expect(error.code).toBe('webgpu-unsupported');
+    expect(error.cause).toBe(cause);
+    expect(error.unsupported).toBe(true);
+    expect(new SnowLayerError('device-lost', 'lost').unsupported).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Layer lifecycle events and the errors they carry.
+ *
+ * The layer keeps its own listeners (on / off / once) and forwards every
+ * event to the map as `snow.<type>` with the layer's ID, so apps that only
+ * hold the map can react too. Errors also go out as MapLibre `error` events,
+ * which the map logs when nobody listens.
+ */
+
+/**
+ * Why the layer failed:
+ * - 'webgpu-unsupported': WebGPU is missing and `renderer: 'webgpu'` rules out
+ *   the WebGL2 fallback
+ * - 'webgl2-unsupported': the map's context is not WebGL2
+ * - 'init-failed': a backend or the map compositor failed to start
+ * - 'device-lost': the GPU device was lost while drawing
+ * - 'bounds-source': the `bounds` source could not be read
+ * - 'sprite-load': the `appearance` sprite atlas could not be loaded
+ * - 'lights-source': the `lighting` lights source could not be read
+ * - 'keyframes-load': the `keyframes` could not be loaded
+ * - 'intensity-field': the `intensityField` could not be read (an image not
+ *   loaded yet, or from another origin without CORS headers)
+ * - 'capture-failed': a frame capture or recording failed (thrown or
+ *   rejected only, never fired as an event)
+ * - 'removed': the layer was removed before it became ready
+ */
+export type SnowErrorCode =
+  | 'webgpu-unsupported'
+  | 'webgl2-unsupported'
+  | 'init-failed'
+  | 'device-lost'
+  | 'bounds-source'
+  | 'sprite-load'
+  | 'lights-source'
+  | 'keyframes-load'
+  | 'intensity-field'
+  | 'capture-failed'
+  | 'removed';
+
+export class SnowLayerError extends Error {
+  readonly code: SnowErrorCode;
+
+  constructor(code: SnowErrorCode, message: string, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'SnowLayerError';
+    this.code = code;
+  }
+
+  /** Whether this error means no backend can run in this browser. */
+  get unsupported(): boolean {
+    return (
+      this.code === 'webgpu-unsupported' || this.code === 'webgl2-unsupported'
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Emitter
+// ---------------------------------------------------------------------------
+
+type Listener<T> = (event: T) => void;
+
+/** once() wrapper, remembering the listener it wraps */
+type OnceListener<T> = Listener<T> & { listener?: Listener<T> };
+
+/** Minimal typed emitter; `M` maps event types to their payloads. */
+export class SnowEvented<M extends { [K in keyof M]: { type: K } }> {
+  private _listeners: { [K in keyof M]?: Listener<M[K]>[] } = {};
+
+  on<K extends keyof M>(type: K, listener: Listener<M[K]>): this {
+    (this._listeners[type] ??= []).push(listener);
+    return this;
+  }
+
+  /** Remove a listener added with on() or once(). */
+  off<K extends keyof M>(type: K, listener: Listener<M[K]>): this {
+    const listeners = this._listeners[type];
+    const index =
+      listeners?.findIndex(
+        (l) =>
+          l === listener || (l as OnceListener<M[K]>).listener === listener,
+      ) ?? -1;
+    if (index >= 0) listeners!.splice(index, 1);
+    return this;
+  }
+
+  /** Listen for the next event of a type only. */
+  once<K extends keyof M>(type: K, listener: Listener<M[K]>): this {
+    const wrapper: OnceListener<M[K]> = (event) => {
+      this.off(type, wrapper);
+      listener(event);
+    };
+    // Kept so off() can be handed the original listener.
+    wrapper.listener = listener;
+    return this.on(type, wrapper);
+  }
+
+  protected _fire<K extends keyof M>(event: M[K] & { type: K }): void {
+    // Copy so listeners can remove themselves while being called.
+    const listeners = this._listeners[event.type]?.slice() ?? [];
+    for (const listener of listeners) listener(event);
+  }
+}
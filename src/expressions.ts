@@ -0,0 +1,75 @@
+/**
+ * Numeric options given as MapLibre style expressions.
+ *
+ * They parse like a layer's paint properties: ["zoom"] only as the input
+ * of a top-level "interpolate" or "step", and no feature data. The map's
+ * pitch in degrees is read with ["global-state", "pitch"]. The layer
+ * evaluates them every frame, so the snow can change with the camera
+ * without zoom listeners.
+ */
+import {
+  createPropertyExpression,
+  type ExpressionSpecification,
+  type StylePropertyExpression,
+  type StylePropertySpecification,
+} from '@maplibre/maplibre-gl-style-spec';
+
+/** A number, or an expression over zoom and pitch giving one */
+export type NumberOrExpression = number | ExpressionSpecification;
+
+/** Options that take expressions */
+export type ExpressionOption =
+  | 'density'
+  | 'intensity'
+  | 'flakeSize'
+  | 'opacity'
+  | 'fogOpacity';
+
+export const EXPRESSION_OPTIONS: readonly ExpressionOption[] = [
+  'density',
+  'intensity',
+  'flakeSize',
+  'opacity',
+  'fogOpacity',
+];
+
+/** A parsed option expression */
+export interface OptionExpression {
+  expression: StylePropertyExpression;
+  /** Value when evaluation fails or is not a finite number */
+  fallback: number;
+}
+
+/** Parse an option expression; throws with MapLibre's messages when invalid. */
+export function parseOptionExpression(
+  value: ExpressionSpecification,
+  fallback: number,
+): OptionExpression {
+  const spec: StylePropertySpecification = {
+    type: 'number',
+    'property-type': 'data-constant',
+    expression: { interpolated: true, parameters: ['zoom'] },
+    default: fallback,
+    transition: false,
+  };
+  const result = createPropertyExpression(value, spec);
+  if (result.result === 'error') {
+    throw new Error(result.value.map((e) => e.message).join('; '));
+  }
+  return { expression: result.value, fallback };
+}
+
+/** Evaluate an option expression for a zoom and pitch (degrees). */
+export function evaluateOptionExpression(
+  option: OptionExpression,
+  zoom: number,
+  pitch: number,
+): number {
+  const value: unknown = option.expression.evaluate({
+    zoom,
+    globalState: { pitch },
+  });
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : option.fallback;
+}
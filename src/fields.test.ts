@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  FIELD_TEXTURE_SIZE,
+  RASTER_FIELD_TILES,
+  rasterTileCover,
+  resampleScalarField,
+  resampleWindField,
+  tileCoverContains,
+  tileURL,
+} from './fields';
+
+const n = FIELD_TEXTURE_SIZE;
+
+describe('resampleScalarField', () => {
+  // Four 90° columns; only the one ending at the antimeridian is set.
+  const data = [0, 0, 0, 1];
+
+  test('wraps a global grid across the antimeridian', () => {
+    const field = resampleScalarField({
+      data,
+      width: 4,
+      height: 1,
+      bounds: [-180, -90, 180, 90],
+    });
+    expect(field.minX).toBe(0);
+    expect(field.sizeX).toBeCloseTo(1);
+    // Both edge texels blend the last column with the first.
+    expect(field.data[0]! / 255).toBeCloseTo(0.5, 1);
+    expect(field.data[n - 1]! / 255).toBeCloseTo(0.5, 1);
+  });
+
+  test('clamps a regional grid at its edges', () => {
+    const field = resampleScalarField({
+      data,
+      width: 4,
+      height: 1,
+      bounds: [-170, -80, 170, 80],
+    });
+    expect(field.data[0]).toBe(0);
+    expect(field.data[n - 1]).toBe(255);
+  });
+
+  test('maps the range to 0–1 and clamps', () => {
+    const field = resampleScalarField({
+      data: [-10, 5, 30],
+      width: 3,
+      height: 1,
+      bounds: [0, 0, 30, 10],
+      range: [0, 10],
+    });
+    expect(field.data[0]).toBe(0);
+    expect(field.data[n / 2]! / 255).toBeCloseTo(0.5, 1);
+    expect(field.data[n - 1]).toBe(255);
+  });
+});
+
+describe('resampleWindField', () => {
+  test('wraps a global grid across the antimeridian', () => {
+    const field = resampleWindField({
+      u: [-2, 0, 0, 2],
+      v: [0, 0, 0, 0],
+      width: 4,
+      height: 1,
+      bounds: [-180, -90, 180, 90],
+    });
+    expect(field.scale).toBeCloseTo(2, 1);
+    // -2 and 2 average out where the columns meet.
+    expect(field.data[0]! / 255).toBeCloseTo(0.5, 1);
+    expect(field.data[(n - 1) * 2]! / 255).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('rasterTileCover', () => {
+  test('picks the deepest zoom spanning the most tiles allowed', () => {
+    const cover = rasterTileCover(
+      { minX: 0.5, minY: 0.5, maxX: 0.51, maxY: 0.505 },
+      0,
+      22,
+    );
+    expect(cover.z).toBe(8);
+    expect(cover.x1 - cover.x0).toBeLessThanOrEqual(RASTER_FIELD_TILES);
+  });
+
+  test('stays within the source zooms', () => {
+    const rect = { minX: 0.5, minY: 0.5, maxX: 0.51, maxY: 0.505 };
+    expect(rasterTileCover(rect, 0, 5).z).toBe(5);
+    const deep = rasterTileCover(rect, 12, 14);
+    expect(deep.z).toBe(12);
+    expect(deep.x1 - deep.x0).toBe(RASTER_FIELD_TILES);
+    expect(deep.y1 - deep.y0).toBe(RASTER_FIELD_TILES);
+  });
+
+  test('is contained in a cover of a larger rect at the same zoom', () => {
+    const outer = rasterTileCover(
+      { minX: 0.4, minY: 0.4, maxX: 0.6, maxY: 0.6 },
+      0,
+      22,
+    );
+    const inner = rasterTileCover(
+      { minX: 0.45, minY: 0.45, maxX: 0.55, maxY: 0.55 },
+      outer.z,
+      outer.z,
+    );
+    expect(tileCoverContains(outer, inner)).toBe(true);
+    expect(tileCoverContains(inner, outer)).toBe(false);
+  });
+});
+
+describe('tileURL', () => {
+  test('fills in the MapLibre placeholders', () => {
+    expect(
+      tileURL(['https://t/{z}/{x}/{y}{ratio}.png'], 3, 1, 2, 'xyz', 2),
+    ).toBe('https://t/3/1/2@2x.png');
+    expect(tileURL(['https://t/{z}/{x}/{y}.png'], 3, 1, 2, 'tms', 1)).toBe(
+      'https://t/3/1/5.png',
+    );
+    expect(tileURL(['https://t/{quadkey}'], 3, 1, 2, 'xyz', 1)).toBe(
+      'https://t/021',
+    );
+    expect(tileURL(['https://t/{bbox-epsg-3857}'], 0, 0, 0, 'xyz', 1)).toBe(
+      'https://t/-20037508.342789244,-20037508.342789244,20037508.342789244,20037508.342789244',
+    );
+  });
+
+  test('spreads tiles over the templates', () => {
+    const templates = ['https://a/{z}', 'https://b/{z}'];
+    expect(tileURL(templates, 1, 0, 0, 'xyz', 1)).toBe('https://a/1');
+    expect(tileURL(templates, 1, 1, 0, 'xyz', 1)).toBe('https://b/1');
+  });
+});
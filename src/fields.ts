@@ -0,0 +1,509 @@
+/**
+ * Georeferenced fields that modulate the snow per particle: scalar intensity
+ * (e.g. radar reflectivity) and U/V wind vectors (e.g. model output).
+ *
+ * Inputs are regular lng/lat grids. They are resampled once on the CPU into
+ * a mercator-aligned 8-bit texture so the backends can sample them with
+ * plain bilinear filtering at each particle's mercator position. Raster tile
+ * sources are read tile by tile straight into that texture, over the tiles
+ * covering the view.
+ */
+import { lngLatToMercator, mercatorYToLat } from './shared';
+
+/** [west, south, east, north] in degrees */
+export type GeoBounds = [number, number, number, number];
+
+/** Row-major grid of values; the first row is the northern edge. */
+export interface GridField {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+  bounds: GeoBounds;
+  /** Values mapped to 0 and 1 (default: [0, 1]) */
+  range?: [number, number];
+}
+
+/**
+ * An image whose pixels cover `bounds`, top row at the northern edge. It must
+ * be fully loaded; images from other origins need CORS headers.
+ */
+export interface ImageField {
+  image: CanvasImageSource;
+  bounds: GeoBounds;
+  /** Channel holding the value: 0 = R, 1 = G, 2 = B, 3 = A (default: 0) */
+  channel?: 0 | 1 | 2 | 3;
+}
+
+/**
+ * A MapLibre raster tile source, read from the tiles covering the view and
+ * re-read as the view moves. Its tiles need CORS headers.
+ */
+export interface RasterSourceField {
+  /** ID of a `raster` source on the map */
+  source: string;
+  /** Channel holding the value: 0 = R, 1 = G, 2 = B, 3 = A (default: 0) */
+  channel?: 0 | 1 | 2 | 3;
+}
+
+/** A grid, a single image, or a raster tile source. */
+export type IntensityField = GridField | ImageField | RasterSourceField;
+
+/**
+ * Row-major U (eastward) and V (northward) wind components, first row at the
+ * northern edge, in the same units as the `direction` speed.
+ */
+export interface WindGrid {
+  u: ArrayLike<number>;
+  v: ArrayLike<number>;
+  width: number;
+  height: number;
+  bounds: GeoBounds;
+  /** Multiplier applied to both components (default: 1) */
+  scale?: number;
+}
+
+/** One record of grib2json output, as used by most web wind layers. */
+export interface Grib2JsonRecord {
+  header: {
+    nx: number;
+    ny: number;
+    lo1: number;
+    la1: number;
+    dx: number;
+    dy: number;
+    parameterCategory?: number;
+    parameterNumber: number;
+  };
+  data: number[];
+}
+
+export type WindField = WindGrid | Grib2JsonRecord[];
+
+/** Mercator-aligned, resampled field as uploaded to the GPU. */
+export interface FieldTexture {
+  minX: number;
+  minY: number;
+  sizeX: number;
+  sizeY: number;
+  /** FIELD_TEXTURE_SIZE² values, row 0 at minY */
+  data: Uint8Array;
+}
+
+/** Resampled wind field: RG pairs encoding [-scale, scale] as 0–255. */
+export interface WindFieldTexture extends FieldTexture {
+  /** Largest absolute component, in `direction` speed units */
+  scale: number;
+}
+
+/** Resampled texture resolution (texels per side) */
+export const FIELD_TEXTURE_SIZE = 256;
+
+/** Most raster source tiles read across the view, per side */
+export const RASTER_FIELD_TILES = 4;
+
+/**
+ * Fall speed multiplier at field value 0; it rises linearly to 1 at value 1,
+ * so light areas drift down slowly instead of hanging in the air.
+ */
+export const FIELD_MIN_FALL = 0.25;
+
+// ---------------------------------------------------------------------------
+// Input normalisation
+// ---------------------------------------------------------------------------
+
+// Intrinsic pixel size: an <img>'s width and height are its layout size.
+function imageSize(image: CanvasImageSource): {
+  width: number;
+  height: number;
+} {
+  if (image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  if (image instanceof HTMLVideoElement) {
+    return { width: image.videoWidth, height: image.videoHeight };
+  }
+  if (image instanceof SVGImageElement) {
+    return {
+      width: image.width.baseVal.value,
+      height: image.height.baseVal.value,
+    };
+  }
+  if (typeof VideoFrame !== 'undefined' && image instanceof VideoFrame) {
+    return { width: image.displayWidth, height: image.displayHeight };
+  }
+  return image as { width: number; height: number };
+}
+
+function imageToGrid(field: ImageField): GridField {
+  const { image, bounds, channel = 0 } = field;
+  const size = imageSize(image);
+  if (size.width === 0 || size.height === 0) {
+    throw new Error('intensity field image has no pixels (not loaded yet?)');
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  ctx.drawImage(image, 0, 0);
+  const pixels = ctx.getImageData(0, 0, size.width, size.height).data;
+  const data = new Float32Array(size.width * size.height);
+  for (let i = 0; i < data.length; i++) data[i] = pixels[i * 4 + channel]!;
+  return {
+    data,
+    width: size.width,
+    height: size.height,
+    bounds,
+    range: [0, 255],
+  };
+}
+
+// grib2json: parameterNumber 2 is U-component, 3 is V-component of wind.
+// Grid points run east then south from (lo1, la1); bounds are cell edges.
+function gribToWindGrid(records: Grib2JsonRecord[]): WindGrid {
+  const find = (param: number) =>
+    records.find(
+      (r) =>
+        r.header.parameterNumber === param &&
+        (r.header.parameterCategory ?? 2) === 2,
+    );
+  const u = find(2);
+  const v = find(3);
+  if (!u || !v) throw new Error('grib2json input needs U and V records');
+  const { nx, ny, lo1, la1, dx, dy } = u.header;
+  const west = lo1 - dx / 2;
+  const north = la1 + dy / 2;
+  return {
+    u: u.data,
+    v: v.data,
+    width: nx,
+    height: ny,
+    bounds: [west, north - ny * dy, west + nx * dx, north],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Resampling
+// ---------------------------------------------------------------------------
+
+// Mercator's limit; grids reaching the poles are clipped here.
+const MAX_LAT = 85.051129;
+
+interface ResampledGrid {
+  minX: number;
+  minY: number;
+  sizeX: number;
+  sizeY: number;
+  /** One FIELD_TEXTURE_SIZE² array per input channel */
+  values: Float32Array[];
+}
+
+/**
+ * Bilinearly resample lng/lat grid channels onto FIELD_TEXTURE_SIZE² texels
+ * covering the grid's mercator bbox. Grids spanning 360° of longitude wrap
+ * and are laid out over the whole world (mercator x 0–1).
+ */
+function resampleGrid(
+  width: number,
+  height: number,
+  bounds: GeoBounds,
+  channels: ArrayLike<number>[],
+): ResampledGrid {
+  const [west, south, east, north] = bounds;
+  const global = east - west >= 360 - 1e-6;
+  const nw = lngLatToMercator(global ? -180 : west, Math.min(north, MAX_LAT));
+  const se = lngLatToMercator(global ? 180 : east, Math.max(south, -MAX_LAT));
+  const n = FIELD_TEXTURE_SIZE;
+  const sizeX = se.x - nw.x;
+  const sizeY = se.y - nw.y;
+
+  const column = (i: number) =>
+    global
+      ? ((i % width) + width) % width
+      : Math.min(width - 1, Math.max(0, i));
+  const row = (j: number) => Math.min(height - 1, Math.max(0, j));
+
+  const values = channels.map(() => new Float32Array(n * n));
+  for (let j = 0; j < n; j++) {
+    // Grid rows are spaced evenly in latitude, not in mercator y.
+    const lat = mercatorYToLat(nw.y + ((j + 0.5) / n) * sizeY);
+    const gy = ((north - lat) / (north - south)) * height - 0.5;
+    const j0 = Math.floor(gy);
+    const ty = gy - j0;
+    const r0 = row(j0) * width;
+    const r1 = row(j0 + 1) * width;
+    for (let i = 0; i < n; i++) {
+      const lng = (nw.x + ((i + 0.5) / n) * sizeX) * 360 - 180;
+      let offset = lng - west;
+      if (global) offset = ((offset % 360) + 360) % 360;
+      const gx = (offset / (east - west)) * width - 0.5;
+      const i0 = Math.floor(gx);
+      const tx = gx - i0;
+      const c0 = column(i0);
+      const c1 = column(i0 + 1);
+      channels.forEach((data, k) => {
+        const top = data[r0 + c0]! * (1 - tx) + data[r0 + c1]! * tx;
+        const bottom = data[r1 + c0]! * (1 - tx) + data[r1 + c1]! * tx;
+        values[k]![j * n + i] = top * (1 - ty) + bottom * ty;
+      });
+    }
+  }
+  return { minX: nw.x, minY: nw.y, sizeX, sizeY, values };
+}
+
+/**
+ * Resample a grid or image field onto a mercator-aligned texture, mapping
+ * `range` to 0–1 and clamping.
+ */
+export function resampleScalarField(
+  field: GridField | ImageField,
+): FieldTexture {
+  const grid = 'image' in field ? imageToGrid(field) : field;
+  const [lo, hi] = grid.range ?? [0, 1];
+  const { values, ...rect } = resampleGrid(
+    grid.width,
+    grid.height,
+    grid.bounds,
+    [grid.data],
+  );
+  const src = values[0]!;
+  const data = new Uint8Array(src.length);
+  for (let i = 0; i < src.length; i++) {
+    const v = (src[i]! - lo) / (hi - lo || 1);
+    data[i] = Math.round(Math.max(0, Math.min(1, v)) * 255);
+  }
+  return { ...rect, data };
+}
+
+/** Resample a U/V wind grid (or grib2json records) for the GPU. */
+export function resampleWindField(field: WindField): WindFieldTexture {
+  const grid = Array.isArray(field) ? gribToWindGrid(field) : field;
+  const { values, ...rect } = resampleGrid(
+    grid.width,
+    grid.height,
+    grid.bounds,
+    [grid.u, grid.v],
+  );
+  const u = values[0]!;
+  const v = values[1]!;
+  const k = grid.scale ?? 1;
+  let maxAbs = 0;
+  for (let i = 0; i < u.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(u[i]!), Math.abs(v[i]!));
+  }
+  const encode = (c: number) =>
+    Math.round((maxAbs > 0 ? c / maxAbs : 0) * 127.5 + 127.5);
+  const data = new Uint8Array(u.length * 2);
+  for (let i = 0; i < u.length; i++) {
+    data[i * 2] = encode(u[i]!);
+    data[i * 2 + 1] = encode(v[i]!);
+  }
+  return { ...rect, data, scale: maxAbs * k };
+}
+
+// ---------------------------------------------------------------------------
+// Raster tile sources
+// ---------------------------------------------------------------------------
+
+/** Tiles x0–x1 × y0–y1 (inclusive) of zoom z, XYZ numbering */
+export interface TileCover {
+  z: number;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * Tiles covering a mercator rect, at the highest zoom within
+ * [minzoom, maxzoom] that spans at most RASTER_FIELD_TILES per side. When
+ * minzoom needs more, only those around the rect's center are taken.
+ */
+export function rasterTileCover(
+  rect: { minX: number; minY: number; maxX: number; maxY: number },
+  minzoom: number,
+  maxzoom: number,
+): TileCover {
+  const span = Math.max(rect.maxX - rect.minX, rect.maxY - rect.minY, 1e-9);
+  const fit = Math.floor(Math.log2(RASTER_FIELD_TILES / span));
+  const z = Math.max(0, Math.min(maxzoom, Math.max(minzoom, fit)));
+  const count = 2 ** z;
+  const tile = (v: number) =>
+    Math.min(count - 1, Math.max(0, Math.floor(v * count)));
+  // A range no wider than RASTER_FIELD_TILES + 1, as alignment may add one.
+  const range = (min: number, max: number): [number, number] => {
+    const from = tile(min);
+    const to = tile(max);
+    if (to - from <= RASTER_FIELD_TILES) return [from, to];
+    const start = tile((min + max) / 2) - RASTER_FIELD_TILES / 2;
+    return [start, start + RASTER_FIELD_TILES];
+  };
+  const [x0, x1] = range(rect.minX, rect.maxX);
+  const [y0, y1] = range(rect.minY, rect.maxY);
+  return { z, x0, y0, x1, y1 };
+}
+
+/** Whether `outer` holds every tile of `inner`, at the same zoom. */
+export function tileCoverContains(outer: TileCover, inner: TileCover): boolean {
+  return (
+    outer.z === inner.z &&
+    outer.x0 <= inner.x0 &&
+    outer.y0 <= inner.y0 &&
+    outer.x1 >= inner.x1 &&
+    outer.y1 >= inner.y1
+  );
+}
+
+/**
+ * URL of a tile from a source's `tiles` templates, filled in the way
+ * MapLibre fills them ({z}/{x}/{y}, {quadkey}, {bbox-epsg-3857}, {prefix},
+ * {ratio}).
+ */
+export function tileURL(
+  templates: string[],
+  z: number,
+  x: number,
+  y: number,
+  scheme: 'xyz' | 'tms',
+  pixelRatio: number,
+): string {
+  const template = templates[(x + y) % templates.length]!;
+  let quadkey = '';
+  for (let level = z; level > 0; level--) {
+    const mask = 1 << (level - 1);
+    quadkey += ((x & mask ? 1 : 0) + (y & mask ? 2 : 0)).toString();
+  }
+  // Web mercator meters of the tile's edges.
+  const extent = 20037508.342789244;
+  const size = (2 * extent) / 2 ** z;
+  const bbox = [
+    -extent + x * size,
+    extent - (y + 1) * size,
+    -extent + (x + 1) * size,
+    extent - y * size,
+  ].join(',');
+  return template
+    .replace(/{prefix}/g, (x % 16).toString(16) + (y % 16).toString(16))
+    .replace(/{z}/g, String(z))
+    .replace(/{x}/g, String(x))
+    .replace(/{y}/g, String(scheme === 'tms' ? 2 ** z - y - 1 : y))
+    .replace(/{ratio}/g, pixelRatio > 1 ? '@2x' : '')
+    .replace(/{quadkey}/g, quadkey)
+    .replace(/{bbox-epsg-3857}/g, bbox);
+}
+
+/**
+ * Draw the tiles of `cover` into a field texture over their mercator rect,
+ * taking `channel` as the 0–1 value, and close them. Tiles that fail to load
+ * read as 0; if none loads, the first failure is thrown.
+ */
+export async function readRasterTiles(
+  cover: TileCover,
+  loadTile: (z: number, x: number, y: number) => Promise<ImageBitmap>,
+  channel: 0 | 1 | 2 | 3 = 0,
+): Promise<FieldTexture> {
+  const { z, x0, y0, x1, y1 } = cover;
+  const columns = x1 - x0 + 1;
+  const rows = y1 - y0 + 1;
+  const tiles: Promise<ImageBitmap>[] = [];
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) tiles.push(loadTile(z, x, y));
+  }
+  const results = await Promise.allSettled(tiles);
+  if (!results.some((r) => r.status === 'fulfilled')) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  const n = FIELD_TEXTURE_SIZE;
+  const canvas = document.createElement('canvas');
+  canvas.width = n;
+  canvas.height = n;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  results.forEach((result, i) => {
+    if (result.status !== 'fulfilled') return;
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    // Whole-texel edges, so neighbouring tiles neither gap nor overlap.
+    const left = Math.round((column / columns) * n);
+    const top = Math.round((row / rows) * n);
+    const right = Math.round(((column + 1) / columns) * n);
+    const bottom = Math.round(((row + 1) / rows) * n);
+    ctx.drawImage(result.value, left, top, right - left, bottom - top);
+    result.value.close();
+  });
+  const pixels = ctx.getImageData(0, 0, n, n).data;
+  const data = new Uint8Array(n * n);
+  for (let i = 0; i < data.length; i++) data[i] = pixels[i * 4 + channel]!;
+
+  const count = 2 ** z;
+  return {
+    minX: x0 / count,
+    minY: y0 / count,
+    sizeX: columns / count,
+    sizeY: rows / count,
+    data,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CPU lookups (WebGL2 backend)
+// ---------------------------------------------------------------------------
+
+// Bilinear lookup of one channel at texture coords (u, v) in [0, 1], 0–1.
+function bilinear(
+  data: Uint8Array,
+  stride: number,
+  channel: number,
+  u: number,
+  v: number,
+): number {
+  const n = FIELD_TEXTURE_SIZE;
+  const gx = u * n - 0.5;
+  const gy = v * n - 0.5;
+  const i0 = Math.max(0, Math.min(n - 1, Math.floor(gx)));
+  const j0 = Math.max(0, Math.min(n - 1, Math.floor(gy)));
+  const i1 = Math.min(n - 1, i0 + 1);
+  const j1 = Math.min(n - 1, j0 + 1);
+  const tx = Math.max(0, Math.min(1, gx - i0));
+  const ty = Math.max(0, Math.min(1, gy - j0));
+  const at = (i: number, j: number) => data[(j * n + i) * stride + channel]!;
+  const top = at(i0, j0) * (1 - tx) + at(i1, j0) * tx;
+  const bottom = at(i0, j1) * (1 - tx) + at(i1, j1) * tx;
+  return (top * (1 - ty) + bottom * ty) / 255;
+}
+
+/**
+ * Intensity field value at a mercator position, 0–1. Returns 1 (no change)
+ * outside the field, or when there is no field.
+ */
+export function sampleField(
+  field: FieldTexture | null,
+  x: number,
+  y: number,
+): number {
+  if (!field) return 1;
+  const u = (x - field.minX) / field.sizeX;
+  const v = (y - field.minY) / field.sizeY;
+  if (u < 0 || u > 1 || v < 0 || v > 1) return 1;
+  return bilinear(field.data, 1, 0, u, v);
+}
+
+/**
+ * Wind field [U, V] at a mercator position in `direction` speed units,
+ * written to `out`; false outside the field (the global wind applies there).
+ */
+export function sampleWindField(
+  field: WindFieldTexture | null,
+  x: number,
+  y: number,
+  out: number[],
+): boolean {
+  if (!field) return false;
+  const u = (x - field.minX) / field.sizeX;
+  const v = (y - field.minY) / field.sizeY;
+  if (u < 0 || u > 1 || v < 0 || v > 1) return false;
+  out[0] = (bilinear(field.data, 2, 0, u, v) * 2 - 1) * field.scale;
+  out[1] = (bilinear(field.data, 2, 1, u, v) * 2 - 1) * field.scale;
+  return true;
+}
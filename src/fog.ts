@@ -0,0 +1,158 @@
+/**
+ * Depth-based haze over the snow.
+ *
+ * The fog pass reconstructs each pixel's view ray from the inverse of
+ * MapLibre's mercator matrix and meets it with sea level. Fog grows with
+ * the distance to that point, in the units of sizing.ts (1 = the map
+ * centre's distance), so it thickens towards the horizon as the map
+ * pitches. Rays that miss the ground (the sky) take the full distance and
+ * thin out with height. On the globe the equivalent mercator view is used.
+ */
+import { parseColor } from './lighting';
+
+export interface FogOptions {
+  /** Haze color, any CSS color (default: '#ffffff') */
+  color?: string;
+  /** Distance where the fog starts, relative to the map centre's (default: 0.5) */
+  start?: number;
+  /** Distance where it is full, same units (default: 4) */
+  end?: number;
+  /** Height over which the fog above the horizon halves, same units (default: 0.3) */
+  heightFalloff?: number;
+  /**
+   * Follow the style's sky: its `fog-color`, and `fog-ground-blend` for
+   * where the fog starts between the map centre and `end` (default: false)
+   */
+  followStyle?: boolean;
+}
+
+export interface ResolvedFog {
+  color: [number, number, number];
+  start: number;
+  end: number;
+  heightFalloff: number;
+  followStyle: boolean;
+}
+
+/** The style's sky settings the fog can follow */
+export interface StyleFog {
+  color: [number, number, number];
+  /** 0 = fog from the map centre, 1 = only at the horizon */
+  groundBlend: number;
+}
+
+/** Fog for one frame, as the backends take it */
+export interface FogFrame {
+  color: [number, number, number];
+  start: number;
+  end: number;
+  heightFalloff: number;
+  /**
+   * Inverse of the mercator matrix moved to the map centre: clip space to
+   * mercator offsets from the centre, which keep float32 precision
+   */
+  inverseMatrix: Float32Array;
+  /** Row of the centred matrix giving clip w, for distances */
+  depthRow: [number, number, number, number];
+}
+
+/** Fill in defaults; false / undefined turns fog off. */
+export function resolveFog(
+  options: boolean | FogOptions | undefined,
+): ResolvedFog | null {
+  if (options === false) return null;
+  const o = options === true || options === undefined ? {} : options;
+  const start = Math.max(0, o.start ?? 0.5);
+  return {
+    color: parseColor(o.color ?? '#ffffff') ?? [1, 1, 1],
+    start,
+    end: Math.max(start + 1e-3, o.end ?? 4),
+    heightFalloff: Math.max(1e-3, o.heightFalloff ?? 0.3),
+    followStyle: o.followStyle ?? false,
+  };
+}
+
+/**
+ * Fog for this frame from the mercator matrix and the map centre (mercator
+ * units), following the style's sky when asked and it has one.
+ */
+export function fogFrame(
+  fog: ResolvedFog,
+  matrix: ArrayLike<number>,
+  cx: number,
+  cy: number,
+  style: StyleFog | null,
+): FogFrame | null {
+  // matrix · translate(cx, cy, 0): only the last column changes.
+  const centred = Array.from(matrix);
+  for (let i = 0; i < 4; i++) {
+    centred[12 + i] = matrix[i]! * cx + matrix[4 + i]! * cy + matrix[12 + i]!;
+  }
+  const inverse = invert(centred);
+  if (!inverse) return null;
+  const follow = fog.followStyle && style;
+  return {
+    color: follow ? style.color : fog.color,
+    start: follow ? 1 + (fog.end - 1) * style.groundBlend : fog.start,
+    end: fog.end,
+    heightFalloff: fog.heightFalloff,
+    inverseMatrix: new Float32Array(inverse),
+    depthRow: [centred[3]!, centred[7]!, centred[11]!, centred[15]!],
+  };
+}
+
+// Column-major 4×4 inverse in double precision; null when singular.
+function invert(m: number[]): number[] | null {
+  const [
+    a00 = 0,
+    a01 = 0,
+    a02 = 0,
+    a03 = 0,
+    a10 = 0,
+    a11 = 0,
+    a12 = 0,
+    a13 = 0,
+    a20 = 0,
+    a21 = 0,
+    a22 = 0,
+    a23 = 0,
+    a30 = 0,
+    a31 = 0,
+    a32 = 0,
+    a33 = 0,
+  ] = m;
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+  const det =
+    b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  if (!det) return null;
+  const d = 1 / det;
+  return [
+    (a11 * b11 - a12 * b10 + a13 * b09) * d,
+    (a02 * b10 - a01 * b11 - a03 * b09) * d,
+    (a31 * b05 - a32 * b04 + a33 * b03) * d,
+    (a22 * b04 - a21 * b05 - a23 * b03) * d,
+    (a12 * b08 - a10 * b11 - a13 * b07) * d,
+    (a00 * b11 - a02 * b08 + a03 * b07) * d,
+    (a32 * b02 - a30 * b05 - a33 * b01) * d,
+    (a20 * b05 - a22 * b02 + a23 * b01) * d,
+    (a10 * b10 - a11 * b08 + a13 * b06) * d,
+    (a01 * b08 - a00 * b10 - a03 * b06) * d,
+    (a30 * b04 - a31 * b02 + a33 * b00) * d,
+    (a21 * b02 - a20 * b04 - a23 * b00) * d,
+    (a11 * b07 - a10 * b09 - a12 * b06) * d,
+    (a00 * b09 - a01 * b07 + a02 * b06) * d,
+    (a31 * b01 - a30 * b03 - a32 * b00) * d,
+    (a20 * b03 - a21 * b01 + a22 * b00) * d,
+  ];
+}
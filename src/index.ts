@@ -2,10 +2,15 @@
  * @geoql/maplibre-gl-snow
  *
  * WebGPU-accelerated snow particle layer for MapLibre GL JS.
- * Uses Three.js WebGPU renderer with TSL compute shaders.
+ * Uses Three.js WebGPU renderer with TSL compute shaders, with a WebGL2
+ * fallback that draws into MapLibre's own context when WebGPU is missing.
  *
  * Architecture:
- * - Two-canvas overlay: MapLibre (WebGL2) + Three.js WebGPU overlay
+ * - Three.js WebGPU canvas, composited into MapLibre's framebuffer with the
+ *   map's depth (composite.ts) or shown as an overlay on top of the map
+ * - One WebGPU renderer and canvas per map, shared by its snow layers
+ *   (renderer.ts)
+ * - WebGL2 fallback: CPU simulation, instanced quads in MapLibre's context
  * - Particles georeferenced as (mercX, mercY, altMerc) in mercator [0,1] space
  * - Camera syncs to MapLibre's mercator projection matrix directly
  * - MapLibre drives the frame loop via triggerRepaint()
@@ -13,6 +18,7 @@
 import * as THREE from 'three/webgpu';
 import {
   Fn,
+  vec2,
   vec3,
   vec4,
   float,
@@ -24,77 +30,586 @@ import {
   uniform,
   hash,
   If,
-  color,
-  screenUV,
+  viewportUV,
   smoothstep,
   uv,
+  texture,
+  varying,
+  step,
+  mix,
+  max,
+  min,
+  length,
+  normalize,
+  mod,
+  clamp,
+  abs,
+  uvec2,
+  atomicAdd,
+  atomicLoad,
+  atomicStore,
+  textureStore,
+  fract,
+  sin,
+  cos,
+  atan,
+  exp,
 } from 'three/tsl';
-import type { CustomRenderMethodInput, Map as MaplibreMap } from 'maplibre-gl';
+import type { GeoJSON } from 'geojson';
+import type { ExpressionSpecification } from '@maplibre/maplibre-gl-style-spec';
+import type {
+  CustomRenderMethodInput,
+  LngLat,
+  Map as MaplibreMap,
+  MapMouseEvent,
+  MapSourceDataEvent,
+  MapTouchEvent,
+  Point,
+  Source,
+} from 'maplibre-gl';
+import {
+  ACCUMULATION_SIZE,
+  accumulationSlot,
+  accumulationTexelSize,
+  accumulationWindow,
+  coveragePerHit,
+  resolveAccumulation,
+  unwrapCoverage,
+  type AccumulationCoverage,
+  type AccumulationFrame,
+  type AccumulationOptions,
+  type AccumulationWindow,
+} from './accumulation';
+import {
+  SIZE_CURVE_SAMPLES,
+  loadSprites,
+  resolveAppearance,
+  type FlakeAppearance,
+  type FlakeShape,
+  type FlakeSprites,
+  type FlakeStyle,
+  type SpriteAtlas,
+} from './appearance';
+import {
+  BOUNDS_MASK_SIZE,
+  rasterizeBounds,
+  spawnRect,
+  volumeGrowth,
+  type BoundsMask,
+  type SnowBounds,
+  type SpawnRect,
+} from './bounds';
+import {
+  captureMap,
+  FrameRecorder,
+  type CaptureOptions,
+  type RecordingOptions,
+} from './capture';
+import { MapCompositor } from './composite';
+import { SnowEvented, SnowLayerError, type SnowErrorCode } from './events';
+import {
+  EXPRESSION_OPTIONS,
+  evaluateOptionExpression,
+  parseOptionExpression,
+  type ExpressionOption,
+  type NumberOrExpression,
+  type OptionExpression,
+} from './expressions';
+import {
+  FIELD_MIN_FALL,
+  FIELD_TEXTURE_SIZE,
+  rasterTileCover,
+  readRasterTiles,
+  resampleScalarField,
+  resampleWindField,
+  tileCoverContains,
+  tileURL,
+  type FieldTexture,
+  type GeoBounds,
+  type Grib2JsonRecord,
+  type GridField,
+  type ImageField,
+  type IntensityField,
+  type RasterSourceField,
+  type TileCover,
+  type WindField,
+  type WindFieldTexture,
+  type WindGrid,
+} from './fields';
+import {
+  fogFrame,
+  resolveFog,
+  type FogFrame,
+  type FogOptions,
+  type ResolvedFog,
+  type StyleFog,
+} from './fog';
+import {
+  CameraMotionTracker,
+  POINTER_RESPONSE,
+  pointerFrame,
+  resolveCameraMotion,
+  resolvePointer,
+  type CameraMotion,
+  type CameraMotionOptions,
+  type PointerFrame,
+  type PointerMode,
+  type PointerOptions,
+} from './interaction';
+import {
+  GLOW_GRID_SIZE,
+  buildGlowGrid,
+  collectLights,
+  daylightColor,
+  parseColor,
+  resolveLighting,
+  sunPosition,
+  type GlowGrid,
+  type LightingOptions,
+  type PointLight,
+  type ResolvedLighting,
+  type SunPosition,
+} from './lighting';
+import {
+  buildTimeline,
+  loadKeyframes,
+  sampleTimeline,
+  timelineKeys,
+  timeValue,
+  type KeyframeProvider,
+  type KeyframeSource,
+  type WeatherKeyframe,
+  type WeatherTimeline,
+} from './playback';
+import {
+  PRECIPITATION_FADE_MS,
+  PRECIPITATION_PROFILES,
+  mixPrecipitation,
+  type PrecipitationProfile,
+  type PrecipitationType,
+} from './precipitation';
+import {
+  QualityGovernor,
+  motionScale,
+  resolveAdaptiveQuality,
+  type AdaptiveQualityOptions,
+  type MotionScale,
+  type ReducedMotion,
+} from './quality';
+import { SharedRenderer, hasWebGPU } from './renderer';
+import {
+  DEFAULT_PARTICLE_COUNT,
+  DENSITY_FADE_BAND,
+  FLAKE_STREAM,
+  FLUTTER_STREAM,
+  MAX_PARTICLE_COUNT,
+  MAX_STEPS_PER_FRAME,
+  RESPAWN_STREAM,
+  SIM_FPS,
+  SIM_STEP_MS,
+  SPAWN_STREAM,
+  createRandom,
+  drawCountFor,
+  lngLatToMercator,
+  mercatorPerMeter,
+  particleCountForDensity,
+  type SnowBackend,
+  type SnowProjection,
+} from './shared';
+import {
+  PERSPECTIVE_MAX_SCALE,
+  resolveDepthOfField,
+  type DepthOfFieldOptions,
+  type FlakeSizeMode,
+} from './sizing';
+import { SnowGL } from './snow-gl';
+import {
+  TERRAIN_GRID_SIZE,
+  TERRAIN_REFRESH_MS,
+  buildTerrainHeightmap,
+  terrainCovers,
+  type TerrainHeightmap,
+} from './terrain';
+import {
+  DEFAULT_TRANSITION_MS,
+  easeInOut,
+  mixTransitionValues,
+  type TransitionOptions,
+  type TransitionValues,
+} from './transition';
+import {
+  EDDY_RESPONSE,
+  EDDY_WAVES,
+  FLUTTER_MAX_RATE,
+  FLUTTER_MIN_RATE,
+  GUST_HARMONIC,
+  TURBULENCE_PERIOD,
+  resolveGusts,
+  resolveTurbulence,
+  turbulenceFrame,
+  type GustOptions,
+  type TurbulenceOptions,
+} from './turbulence';
+import { DEFAULT_CLOUD_BASE, mercatorPerUnit, type SnowUnits } from './units';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/** Rendering backend; 'auto' prefers WebGPU and falls back to WebGL2. */
+export type SnowRendererType = 'auto' | 'webgpu' | 'webgl2';
+
+/**
+ * Where WebGPU output is drawn: 'map' composites it into MapLibre's
+ * framebuffer at the layer's place in the style, hidden behind buildings and
+ * terrain; 'overlay' keeps a separate canvas on top of the whole map.
+ */
+export type SnowCompositing = 'map' | 'overlay';
+
 export interface MaplibreSnowOptions {
   /** Unique layer ID (default: 'snow') */
   id?: string;
-  /** Particle density 0–1 (default: 0.5) */
-  density?: number;
-  /** Fall speed intensity 0–1 (default: 0.5) */
-  intensity?: number;
-  /** Base flake size in CSS pixels (default: 4) */
-  flakeSize?: number;
-  /** Global opacity 0–1 (default: 0.8) */
-  opacity?: number;
-  /** Wind as [azimuth degrees, horizontal speed px/s] (default: [0, 50]) */
+  /** Particle density 0–1, or an expression (default: 0.5) */
+  density?: NumberOrExpression;
+  /** Fall speed intensity 0–1, or an expression (default: 0.5) */
+  intensity?: NumberOrExpression;
+  /** Base flake size in CSS pixels, or an expression (default: 4) */
+  flakeSize?: NumberOrExpression;
+  /** Global opacity 0–1, or an expression (default: 0.8) */
+  opacity?: NumberOrExpression;
+  /** Wind as [azimuth degrees, horizontal speed px/s or m/s] (default: [0, 50]) */
   direction?: [number, number];
-  /** Enable atmospheric fog overlay (default: true) */
-  fog?: boolean;
-  /** Fog opacity 0–1 (default: 0.08) */
-  fogOpacity?: number;
+  /** Speeds in screen px/s, or physical m/s (default: 'pixels') */
+  units?: SnowUnits;
+  /** Top of the particle volume with metric units, meters above ground (default: 1000) */
+  cloudBase?: number;
+  /** Eddies and per-flake flutter; true uses the defaults (default: false) */
+  turbulence?: boolean | TurbulenceOptions;
+  /** Wind speed varying over time; true uses the defaults (default: false) */
+  gusts?: boolean | GustOptions;
+  /** Depth-based fog over the snow; true uses the defaults (default: true) */
+  fog?: boolean | FogOptions;
+  /** Fog opacity 0–1, or an expression (default: 0.08) */
+  fogOpacity?: NumberOrExpression;
+  /** Rendering backend (default: 'auto') */
+  renderer?: SnowRendererType;
+  /** How WebGPU output joins the map (default: 'map') */
+  compositing?: SnowCompositing;
+  /** Precipitation type (default: 'snow') */
+  precipitation?: PrecipitationType;
+  /** Limit snow to GeoJSON polygons, or the polygons of a GeoJSON source ID */
+  bounds?: SnowBounds;
+  /** Soft edge width for `bounds` in meters (default: 0) */
+  boundsFade?: number;
+  /** Gridded 0–1 local intensity, e.g. from radar (default: none) */
+  intensityField?: IntensityField;
+  /** Gridded U/V wind; `direction` applies outside it (default: none) */
+  windField?: WindField;
+  /** Build up ground cover where snow lands (default: false) */
+  accumulation?: boolean | AccumulationOptions;
+  /** Seed for a reproducible particle layout (default: random) */
+  seed?: number;
+  /** Flake shapes or sprites, size distribution, spin and tumble */
+  appearance?: FlakeAppearance;
+  /** Flake and ground cover color, any CSS color (default: '#ffffff') */
+  color?: string;
+  /** Light snow by the sun and point lights (default: false) */
+  lighting?: boolean | LightingOptions;
+  /** Fixed pixel size, or scaled with distance (default: 'pixels') */
+  sizeMode?: FlakeSizeMode;
+  /** Blur flakes away from a focus distance (default: false) */
+  depthOfField?: boolean | DepthOfFieldOptions;
+  /** Scale particles and resolution to hold a frame rate (default: false) */
+  adaptiveQuality?: boolean | AdaptiveQualityOptions;
+  /** How to honor prefers-reduced-motion (default: 'reduce') */
+  reducedMotion?: ReducedMotion;
+  /** Streak flakes as the camera moves quickly (default: false) */
+  cameraMotion?: boolean | CameraMotionOptions;
+  /** Push or swirl flakes near the pointer (default: false) */
+  pointer?: boolean | PointerOptions;
+  /** Weather over time for play() and setTime(): keyframes, a JSON URL or a provider */
+  keyframes?: KeyframeSource;
 }
 
-// ---------------------------------------------------------------------------
-// Constants
-// ---------------------------------------------------------------------------
+/** Changed options with their new values; null means removed. */
+export type SnowOptionsChange = {
+  [K in keyof MaplibreSnowOptions]?: MaplibreSnowOptions[K] | null;
+};
+
+/** Events from `layer.on()`; the map receives them as `snow.<type>`. */
+export interface SnowLayerEventMap {
+  /** A backend has started drawing */
+  ready: { type: 'ready'; renderer: 'webgpu' | 'webgl2' };
+  /** No backend can run in this browser; nothing will draw */
+  unsupported: { type: 'unsupported'; error: SnowLayerError };
+  /** A backend failed to start, or the bounds source could not be read */
+  error: { type: 'error'; error: SnowLayerError };
+  /** The WebGPU device was lost; with renderer 'auto' WebGL2 takes over */
+  devicelost: { type: 'devicelost'; error: SnowLayerError };
+  /** Options changed through a setter, or a transition ended */
+  optionschange: { type: 'optionschange'; options: SnowOptionsChange };
+  /** The playback time moved, playback started or stopped, or keyframes loaded */
+  timeupdate: { type: 'timeupdate'; time: Date; playing: boolean };
+}
 
-const DEFAULT_PARTICLE_COUNT = 8_000;
-const MIN_PARTICLE_COUNT = 2_000;
-const MAX_PARTICLE_COUNT = 20_000;
+export type SnowLayerEvent = SnowLayerEventMap[keyof SnowLayerEventMap];
+
+// A running transitionTo(): targets still being animated and how to settle
+// the returned promise.
+interface ActiveTransition {
+  from: Required<TransitionValues>;
+  to: TransitionValues;
+  /** On the layer's clock, which stands still while paused */
+  start: number;
+  duration: number;
+  easing: (t: number) => number;
+  resolve: (completed: boolean) => void;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+}
+
+interface ReadyWaiter {
+  resolve: () => void;
+  reject: (error: SnowLayerError) => void;
+}
 
 // ---------------------------------------------------------------------------
-// Mercator helpers (no maplibre-gl import needed)
+// Helpers
 // ---------------------------------------------------------------------------
 
-function lngLatToMercator(lng: number, lat: number): { x: number; y: number } {
-  const sinLat = Math.sin((lat * Math.PI) / 180);
+// MapLibre's projection for this frame. Custom layers get the globe matrix
+// whenever the globe is drawn at all; how far it has blended towards
+// mercator while zooming in is the style projection's transition state.
+function snowProjection(
+  map: MaplibreMap,
+  args: CustomRenderMethodInput,
+): SnowProjection {
+  const data = args.defaultProjectionData;
+  const onGlobe = data.projectionTransition > 0;
   return {
-    x: (lng + 180) / 360,
-    y: 0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI),
+    mainMatrix: new Float32Array(data.mainMatrix),
+    fallbackMatrix: new Float32Array(data.fallbackMatrix),
+    globe: onGlobe
+      ? (map.style?.projection?.transitionState ?? data.projectionTransition)
+      : 0,
+    clippingPlane: data.clippingPlane,
+    cameraDistance: map.transform.cameraToCenterDistance,
+  };
+}
+
+function createTracker(
+  options: boolean | CameraMotionOptions | undefined,
+): CameraMotionTracker | null {
+  const resolved = resolveCameraMotion(options);
+  return resolved && new CameraMotionTracker(resolved);
+}
+
+function createGovernor(
+  options: boolean | AdaptiveQualityOptions | undefined,
+): QualityGovernor | null {
+  const resolved = resolveAdaptiveQuality(options);
+  return resolved && new QualityGovernor(resolved);
+}
+
+// A numeric option's starting value; expressions take over on the first
+// frame.
+function numberOption(
+  value: NumberOrExpression | undefined,
+  fallback: number,
+): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+// Half the side of the particle volume's view box, in mercator units; the
+// backends' updateSpatial() uses the same formula.
+function viewHalfSpan(zoom: number, cssWidth: number): number {
+  return (cssWidth / (512 * Math.pow(2, zoom))) * 1.2;
+}
+
+function isWebGL2(
+  gl: WebGL2RenderingContext | WebGLRenderingContext,
+): gl is WebGL2RenderingContext {
+  return (
+    typeof WebGL2RenderingContext !== 'undefined' &&
+    gl instanceof WebGL2RenderingContext
+  );
+}
+
+// One (R), two (RG) or four (RGBA) unsigned byte channels per texel; square
+// by default.
+function createByteTexture(
+  size: number,
+  channels: 1 | 2 | 4,
+  height = size,
+): THREE.DataTexture {
+  const tex = new THREE.DataTexture(
+    new Uint8Array(size * height * channels),
+    size,
+    height,
+    channels === 1
+      ? THREE.RedFormat
+      : channels === 2
+        ? THREE.RGFormat
+        : THREE.RGBAFormat,
+    THREE.UnsignedByteType,
+  );
+  // Linear filtering so masks and fields interpolate between texels.
+  tex.magFilter = THREE.LinearFilter;
+  tex.minFilter = THREE.LinearFilter;
+  tex.needsUpdate = true;
+  return tex;
+}
+
+// Built-in crystal shapes as 0–1 masks in flake-local coordinates (centre
+// 0, edge radius 0.5). PLATE_GLSL and DENDRITE_GLSL in snow-gl.ts match.
+function plateMask(q: TslNode): TslNode {
+  // Distance to a hexagon's sides, with a faint inner hexagon as a facet.
+  const hex = max(
+    abs(q.y),
+    max(
+      abs(q.x.mul(0.866).add(q.y.mul(0.5))),
+      abs(q.x.mul(0.866).sub(q.y.mul(0.5))),
+    ),
+  );
+  const outline = float(1.0).sub(smoothstep(0.4, 0.44, hex));
+  const facet = float(1.0).sub(smoothstep(0.0, 0.03, abs(hex.sub(0.28))));
+  return outline.mul(mix(0.7, 1.0, facet));
+}
+
+function dendriteMask(q: TslNode): TslNode {
+  // Fold into one of six arms: `along` runs out from the centre, `across`
+  // away from the arm's axis. atan() + 7π/6 keeps mod()'s input positive.
+  const r = length(q);
+  const sector = mod(atan(q.y, q.x).add((7 * Math.PI) / 6), Math.PI / 3).sub(
+    Math.PI / 6,
+  );
+  const along = r.mul(cos(sector));
+  const across = abs(r.mul(sin(sector)));
+  const arm = float(1.0).sub(smoothstep(0.025, 0.045, across));
+  // Side branches leave every 0.2 along the arm, shorter towards the tip.
+  const node = fract(along.mul(5.0)).div(5.0);
+  const branch = float(1.0)
+    .sub(smoothstep(0.015, 0.035, abs(across.sub(node.mul(1.2)))))
+    .mul(step(across, float(0.22).mul(float(1.0).sub(along.mul(2.0)))))
+    .mul(step(0.1, along));
+  const core = float(1.0).sub(smoothstep(0.06, 0.09, r));
+  return max(max(arm, branch), core).mul(
+    float(1.0).sub(smoothstep(0.44, 0.5, r)),
+  );
+}
+
+async function readGeoJSONSource(
+  source: Source,
+  option: 'bounds' | 'lights',
+): Promise<GeoJSON | null> {
+  const s = source as unknown as {
+    type: string;
+    getData?: () => Promise<GeoJSON>;
+    serialize(): { data?: unknown };
+  };
+  if (s.type !== 'geojson') {
+    console.warn(
+      `[maplibre-gl-snow] ${option} source must be a GeoJSON source`,
+    );
+    return null;
+  }
+  if (s.getData) return s.getData();
+  // MapLibre < 4 has no getData(); the spec holds the object it was given.
+  const data = s.serialize().data;
+  return typeof data === 'object' && data !== null ? (data as GeoJSON) : null;
+}
+
+// Style colors are premultiplied by their alpha; plain RGB, 0–1.
+function styleColorRGB(color: {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}): [number, number, number] {
+  const a = color.a || 1;
+  return [color.r / a, color.g / a, color.b / a];
+}
+
+// The parts of a raster source the intensity field reads.
+interface RasterSourceTiles {
+  type: string;
+  tiles?: string[];
+  scheme?: 'xyz' | 'tms';
+  minzoom: number;
+  maxzoom: number;
+}
+
+// MapLibre's private request manager, which applies `transformRequest`.
+interface RequestManager {
+  transformRequest(url: string, type: 'Tile'): RequestInit & { url: string };
+}
+
+// Fetch a raster tile the way MapLibre requests it; tiles the map already
+// loaded come from the HTTP cache.
+async function fetchRasterTile(
+  map: MaplibreMap,
+  url: string,
+): Promise<ImageBitmap> {
+  const manager = (map as unknown as { _requestManager?: RequestManager })
+    ._requestManager;
+  const { url: href, ...init } = manager?.transformRequest(url, 'Tile') ?? {
+    url,
   };
+  const res = await fetch(href, init);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return createImageBitmap(await res.blob());
 }
 
 // ---------------------------------------------------------------------------
 // WebGPU Particle System
 // ---------------------------------------------------------------------------
 
-class SnowGPU {
+class SnowGPU implements SnowBackend {
   private renderer: THREE.WebGPURenderer | null = null;
   private scene: THREE.Scene | null = null;
   private camera: THREE.PerspectiveCamera | null = null;
 
-  // Particle state
+  // Particle state. Buffers hold MAX_PARTICLE_COUNT; the density picks how
+  // many of them show (see DENSITY_FADE_BAND). liveCount particles from
+  // index 0 are simulated, the rest spawn when the density reaches them.
   private particleCount = DEFAULT_PARTICLE_COUNT;
+  private particleScale = 1;
+  private visibleCount = DEFAULT_PARTICLE_COUNT;
+  private liveCount = 0;
   private posBuffer: ReturnType<typeof instancedArray> | null = null;
   private velBuffer: ReturnType<typeof instancedArray> | null = null;
   private snowMesh: THREE.Mesh | null = null;
+  // Map compositing only: packed depth of the nearest flake (composite.ts).
+  private depthMesh: THREE.Mesh | null = null;
   private computeInit: ReturnType<ReturnType<typeof Fn>['compute']> | null =
     null;
   private computeUpdate: ReturnType<ReturnType<typeof Fn>['compute']> | null =
     null;
 
   // Uniforms (updated every frame from render callback)
-  private uCenter = uniform(new THREE.Vector2(0.5, 0.5));
+  // Spawn rect: the view volume's footprint, clipped to the bounds' bbox
+  // when set. Particles leaving it wrap around.
+  private uSpawnMin = uniform(new THREE.Vector2(0.495, 0.495));
+  private uSpawnMax = uniform(new THREE.Vector2(0.505, 0.505));
+  // Spread over a grown volume, for the first step after it grew (see
+  // volumeGrowth()); stepRect is the volume the last step ran in.
+  private uGrowing = uniform(0.0);
+  private uGrowFrom = uniform(new THREE.Vector2());
+  private uGrowTo = uniform(new THREE.Vector2());
+  private uGrowScale = uniform(new THREE.Vector3(1, 1, 1));
+  private spawn: SpawnRect | null = null;
+  private stepRect: SpawnRect | null = null;
+  private stepAltSpan = 0;
+  // Particles shown: the density's count, scaled with the spawn rect's
+  // area so the density stays the same.
+  private uVisibleCount = uniform(DEFAULT_PARTICLE_COUNT);
+  // Seed of the spawn layout, and of the respawns in the current step.
+  private uSeed = uniform(0, 'uint');
+  private uRespawnSalt = uniform(0, 'uint');
+  // First particle computeInit spawns; those before it are left alone.
+  private uInitFrom = uniform(0, 'uint');
+  private seed = 0;
+  private stepIndex = 0;
   private uHalfSpan = uniform(0.005);
   private uAltSpan = uniform(0.0025);
   private uRadiusPx = uniform(4.0);
@@ -104,34 +619,164 @@ class SnowGPU {
   private uOpacity = uniform(0.8);
   private uColor = uniform(new THREE.Color(1, 1, 1));
 
+  // Precipitation profile (blended by the layer while switching types)
+  private uSpeedJitter = uniform(0.5);
+  private uSizeScale = uniform(1.0);
+  private uStretch = uniform(1.0);
+  private uSoftness = uniform(0.16);
+  private uTail = uniform(0.0);
+  private uAmbient = uniform(0.3);
+  private uTint = uniform(new THREE.Color(1, 1, 1));
+  private uAlpha = uniform(1.0);
+  private uCrystal = uniform(1.0);
+
+  // Flake appearance (see appearance.ts): shape shares, size curve, spin and
+  // tumble rates, and the sprite atlas once loaded. uTime is simulation time
+  // in seconds, so flakes stop turning while paused.
+  private sizeCurveTexture = createByteTexture(SIZE_CURVE_SAMPLES, 1, 1);
+  private uSizeMax = uniform(1.0);
+  private uShapeMix = uniform(new THREE.Vector2(1, 1));
+  private uSpin = uniform(0.0);
+  private uTumble = uniform(0.0);
+  private uTime = uniform(0.0);
+  private spritePlaceholder = createByteTexture(1, 1);
+  private spriteTexture: THREE.Texture | null = null;
+  private spriteNode: TslTextureNode | null = null;
+  private uSpriteGrid = uniform(new THREE.Vector2(1, 1));
+  private uSpritesEnabled = uniform(0.0);
+
+  // Lighting (see lighting.ts): sun tint, and the point-light glow grid with
+  // the lights' mean altitude and the height the glow fades over.
+  private uLight = uniform(new THREE.Color(1, 1, 1));
+  private glowTexture = createByteTexture(GLOW_GRID_SIZE, 4);
+  private uGlowMin = uniform(new THREE.Vector2(0, 0));
+  private uGlowSize = uniform(1.0);
+  private uGlowBase = uniform(0.0);
+  private uGlowReach = uniform(1.0);
+  private uGlowEnabled = uniform(0.0);
+
+  // Sizing with distance (see sizing.ts), relative to uCameraDistance.
+  private uCameraDistance = uniform(1.0);
+  private uPerspective = uniform(0.0);
+  private uFocusDistance = uniform(1.0);
+  private uFocusRange = uniform(0.25);
+  private uMaxBlur = uniform(0.0);
+
+  // Bounds mask (see bounds.ts); kept across particle rebuilds.
+  private boundsMask: BoundsMask | null = null;
+  private maskTexture = createByteTexture(BOUNDS_MASK_SIZE, 1);
+  private uBoundsMin = uniform(new THREE.Vector2(0, 0));
+  private uBoundsSize = uniform(1.0);
+  private uBoundsEnabled = uniform(0.0);
+
+  // Intensity field (see fields.ts); kept across particle rebuilds.
+  private fieldTexture = createByteTexture(FIELD_TEXTURE_SIZE, 1);
+  private uFieldMin = uniform(new THREE.Vector2(0, 0));
+  private uFieldSize = uniform(new THREE.Vector2(1, 1));
+  private uFieldEnabled = uniform(0.0);
+
+  // Wind field (see fields.ts): RG-encoded U/V, decoded with uWindFieldScale
+  // (merc-units/frame per unit, so it already includes zoom and fps).
+  private windField: WindFieldTexture | null = null;
+  private windFieldTexture = createByteTexture(FIELD_TEXTURE_SIZE, 2);
+  private uWindFieldMin = uniform(new THREE.Vector2(0, 0));
+  private uWindFieldSize = uniform(new THREE.Vector2(1, 1));
+  private uWindFieldScale = uniform(0.0);
+  private uWindFieldEnabled = uniform(0.0);
+  // Share of the wind the current precipitation type picks up.
+  private windFactor = 1.0;
+  // Turbulence and gusts (see turbulence.ts); a speed or amplitude of 0
+  // turns them off. uTurbulenceSpeed is merc-units/frame like the wind.
+  private turbulence: Required<TurbulenceOptions> | null = null;
+  private uTurbulenceOrigin = uniform(new THREE.Vector2(0, 0));
+  private uTurbulenceScale = uniform(1.0);
+  private uTurbulenceSpeed = uniform(0.0);
+  private uGustFrequency = uniform(0.0);
+  private uGustAmplitude = uniform(0.0);
+  // Camera motion and the pointer (see interaction.ts). The camera motion is
+  // over the exposure in CSS pixels with y up, and uStreakMax = 0 turns the
+  // streaks off; uPointerSpeed is merc-units/frame, 0 without a pointer.
+  private uCameraShift = uniform(new THREE.Vector2(0, 0));
+  private uCameraTurn = uniform(0.0);
+  private uCameraZoom = uniform(0.0);
+  private uStreakMax = uniform(0.0);
+  private uPointer = uniform(new THREE.Vector2(0, 0));
+  private uPointerRadius = uniform(1.0);
+  private uPointerSpeed = uniform(0.0);
+  private uPointerSwirl = uniform(0.0);
+
+  // Terrain heightmap (see terrain.ts); all zero without 3D terrain.
+  private terrainTexture = createByteTexture(TERRAIN_GRID_SIZE, 1);
+  private uTerrainMin = uniform(new THREE.Vector2(0, 0));
+  private uTerrainSize = uniform(1.0);
+  private uTerrainBase = uniform(0.0);
+  private uTerrainRange = uniform(0.0);
+
+  // Ground cover (see accumulation.ts): the update pass counts landings per
+  // slot in hitsBuffer, computeAccumulate folds them into coverageBuffer and
+  // mirrors it into coverageTexture for the ground mesh.
+  private hitsBuffer: TslStorageNode | null = null;
+  private coverageBuffer: TslStorageNode | null = null;
+  private coverageTexture: THREE.StorageTexture | null = null;
+  private computeAccumulate: ReturnType<
+    ReturnType<typeof Fn>['compute']
+  > | null = null;
+  private groundMesh: THREE.Mesh | null = null;
+  private accumWindow: AccumulationWindow | null = null;
+  private uAccumEnabled = uniform(0.0);
+  // Window min corner (merc) and texel size; slot of the window origin.
+  private uAccumMin = uniform(new THREE.Vector2(0, 0));
+  private uAccumTexel = uniform(1.0);
+  private uAccumSlot = uniform(new THREE.Vector2(0, 0));
+  // Previous frame's origin slot and the origin shift since, in texels.
+  private uAccumPrevSlot = uniform(new THREE.Vector2(0, 0));
+  private uAccumShift = uniform(new THREE.Vector2(0, 0));
+  private uAccumPerHit = uniform(0.0);
+  private uAccumMelt = uniform(0.0);
+  private uAccumMax = uniform(1.0);
+  private uAccumClear = uniform(0.0);
+
   // Screen-space billboard uniforms — updated every frame.
   private uMainMatrix = uniform(new THREE.Matrix4());
+  // Globe projection (see SnowProjection): mercator matrix, blend factor and
+  // horizon plane.
+  private uFallbackMatrix = uniform(new THREE.Matrix4());
+  private uGlobe = uniform(0.0);
+  private uClippingPlane = uniform(new THREE.Vector4());
   private uViewportW = uniform(1.0);
   private uViewportH = uniform(1.0);
 
   // Fog overlay
   private fogMesh: THREE.Mesh | null = null;
   private uFogOpacity = uniform(0.08);
-  private _fogEnabled = true;
+  private uFogColor = uniform(new THREE.Color(1, 1, 1));
+  private uFogStart = uniform(0.5);
+  private uFogEnd = uniform(4.0);
+  private uFogFalloff = uniform(0.3);
+  private uFogInverse = uniform(new THREE.Matrix4());
+  private uFogDepthRow = uniform(new THREE.Vector4());
 
   private initialized = false;
-  private resizeObserver: ResizeObserver | null = null;
+  private disposed = false;
 
-  async init(overlayCanvas: HTMLCanvasElement): Promise<boolean> {
-    if (!(navigator as unknown as { gpu?: unknown }).gpu) {
-      console.warn('[maplibre-gl-snow] WebGPU not supported');
-      return false;
-    }
+  /** Called when the GPU device is lost after init. */
+  onDeviceLost: ((error: SnowLayerError) => void) | null = null;
+
+  // The map's renderer (renderer.ts); this backend adds its own passes.
+  private shared: SharedRenderer | null = null;
+  private composite = false;
+
+  /** Rejects with a SnowLayerError when WebGPU is missing or fails. */
+  async init(shared: SharedRenderer): Promise<void> {
+    const renderer = await shared.ready;
+    // Disposed while the renderer was starting.
+    if (this.disposed) return;
 
     try {
-      this.renderer = new THREE.WebGPURenderer({
-        canvas: overlayCanvas,
-        antialias: false,
-        alpha: true,
-      });
-      this.renderer.setClearColor(0x000000, 0);
-      this.renderer.setPixelRatio(window.devicePixelRatio);
-      await this.renderer.init();
+      this.shared = shared;
+      this.renderer = renderer;
+      this.composite = shared.composite;
+      shared.addDeviceLostListener(this._onDeviceLost);
 
       this.scene = new THREE.Scene();
 
@@ -144,14 +789,13 @@ class SnowGPU {
       // Prevent Three.js from overwriting our projection matrix
       this.camera.updateProjectionMatrix = () => {};
 
+      this._buildGroundCover();
       this._buildParticleSystem();
       this._buildFogOverlay();
 
       this.initialized = true;
-      return true;
     } catch (err) {
-      console.error('[maplibre-gl-snow] WebGPU init failed:', err);
-      return false;
+      throw new SnowLayerError('init-failed', 'WebGPU init failed', err);
     }
   }
 
@@ -162,73 +806,320 @@ class SnowGPU {
   private _buildParticleSystem(): void {
     if (!this.renderer || !this.scene) return;
 
-    const N = this.particleCount;
+    const N = MAX_PARTICLE_COUNT;
 
     // Storage buffers
     // posBuffer: vec3(mercX, mercY, mercAlt) — mercator [0,1] space
-    // velBuffer: vec4(vx, vy, valt, seed)
+    // velBuffer: vec3(vx, vy, speed random)
     this.posBuffer = instancedArray(N, 'vec3');
-    this.velBuffer = instancedArray(N, 'vec4');
-
-    const randUint = () => uint(Math.floor(Math.random() * 0xffffff));
+    this.velBuffer = instancedArray(N, 'vec3');
+
+    // Random streams: hash(index + salt + k·N) is independent for each k.
+    const uSeed = this.uSeed;
+    const uRespawnSalt = this.uRespawnSalt;
+    const stream = (salt: TslNode, k: number) =>
+      hash(instanceIndex.add(salt).add(uint(k * N)));
+
+    // 1 when a field UV lies inside [0, 1]², else 0.
+    const insideUnit = (fieldUV: TslNode) =>
+      step(0.0, fieldUV.x)
+        .mul(step(fieldUV.x, 1.0))
+        .mul(step(0.0, fieldUV.y))
+        .mul(step(fieldUV.y, 1.0));
+
+    // Local intensity 0–1 from the intensity field at a mercator position;
+    // 1 (global settings only) outside the field or without one.
+    const fieldTexture = this.fieldTexture;
+    const uFieldMin = this.uFieldMin;
+    const uFieldSize = this.uFieldSize;
+    const uFieldEnabled = this.uFieldEnabled;
+    const localIntensity = (x: TslNode, y: TslNode) => {
+      const fieldUV = vec2(x, y).sub(uFieldMin).div(uFieldSize);
+      return mix(
+        float(1.0),
+        texture(fieldTexture, fieldUV).x,
+        insideUnit(fieldUV).mul(uFieldEnabled),
+      );
+    };
+
+    // Wind in merc-units/frame at a mercator position: the wind field inside
+    // its bounds, the global uWindX / uWindY elsewhere.
+    const uWindX = this.uWindX;
+    const uWindY = this.uWindY;
+    const windFieldTexture = this.windFieldTexture;
+    const uWindFieldMin = this.uWindFieldMin;
+    const uWindFieldSize = this.uWindFieldSize;
+    const uWindFieldScale = this.uWindFieldScale;
+    const uWindFieldEnabled = this.uWindFieldEnabled;
+    const windAt = (x: TslNode, y: TslNode) => {
+      const fieldUV = vec2(x, y).sub(uWindFieldMin).div(uWindFieldSize);
+      const encoded = texture(windFieldTexture, fieldUV);
+      // U is eastward (+mercX); V is northward, and mercY grows southward.
+      const fieldWind = vec2(
+        encoded.x.mul(2.0).sub(1.0),
+        float(1.0).sub(encoded.y.mul(2.0)),
+      ).mul(uWindFieldScale);
+      return mix(
+        vec2(uWindX, uWindY),
+        fieldWind,
+        insideUnit(fieldUV).mul(uWindFieldEnabled),
+      );
+    };
+
+    const groundAt = (x: TslNode, y: TslNode) => this._groundAt(x, y);
+
+    // Point-light glow at a position: the glow grid, fading out above the
+    // lights' altitude; 0 outside the grid or without lights.
+    const glowTexture = this.glowTexture;
+    const uGlowMin = this.uGlowMin;
+    const uGlowSize = this.uGlowSize;
+    const uGlowBase = this.uGlowBase;
+    const uGlowReach = this.uGlowReach;
+    const uGlowEnabled = this.uGlowEnabled;
+    const glowAt = (x: TslNode, y: TslNode, z: TslNode) => {
+      const glowUV = vec2(x, y).sub(uGlowMin).div(uGlowSize);
+      const fade = float(1.0).sub(
+        smoothstep(0.0, uGlowReach, abs(z.sub(uGlowBase))),
+      );
+      return texture(glowTexture, glowUV)
+        .xyz.mul(fade)
+        .mul(insideUnit(glowUV).mul(uGlowEnabled));
+    };
+
+    // Visibility of a particle, 0–1: bounds mask coverage at its position,
+    // times a soft cut-off on the particle index at uVisibleCount, times the
+    // intensity field acting as spawn probability (a fixed per-particle
+    // random threshold, so the visible density follows the field).
+    const uVisibleCount = this.uVisibleCount;
+    const uBoundsMin = this.uBoundsMin;
+    const uBoundsSize = this.uBoundsSize;
+    const uBoundsEnabled = this.uBoundsEnabled;
+    const maskTexture = this.maskTexture;
+    const visibleAt = (x: TslNode, y: TslNode) => {
+      const maskUV = vec2(x, y).sub(uBoundsMin).div(uBoundsSize);
+      const coverage = mix(
+        float(1.0),
+        texture(maskTexture, maskUV).x,
+        uBoundsEnabled,
+      );
+      const shown = clamp(
+        uVisibleCount.sub(float(instanceIndex)).div(DENSITY_FADE_BAND).add(0.5),
+        0.0,
+        1.0,
+      );
+      const spawnChance = step(
+        stream(uSeed, SPAWN_STREAM),
+        localIntensity(x, y),
+      );
+      return coverage.mul(shown).mul(spawnChance);
+    };
 
     // ----- computeInit -----
     const posBuffer = this.posBuffer;
     const velBuffer = this.velBuffer;
-    const uCenter = this.uCenter;
+    const uSpawnMin = this.uSpawnMin;
+    const uSpawnMax = this.uSpawnMax;
     const uHalfSpan = this.uHalfSpan;
     const uAltSpan = this.uAltSpan;
     const uFallSpeed = this.uFallSpeed;
 
-    const initFn = Fn(() => {
-      const pos = posBuffer.element(instanceIndex);
-      const vel = velBuffer.element(instanceIndex);
+    const uInitFrom = this.uInitFrom;
 
-      const rx = hash(instanceIndex);
-      const ry = hash(instanceIndex.add(randUint()));
-      const rz = hash(instanceIndex.add(randUint()));
-      const rs = hash(instanceIndex.add(randUint()));
-
-      // Spawn in a box centered at uCenter
-      // Spawn in a box centered at uCenter, scattered vertically
-      pos.x = uCenter.x.add(rx.mul(uHalfSpan.mul(2.0)).sub(uHalfSpan));
-      pos.y = uCenter.y.add(ry.mul(uHalfSpan.mul(2.0)).sub(uHalfSpan));
-      pos.z = rz.mul(uAltSpan); // altitude [0, altSpan]
-      // vel.z is a per-particle random multiplier [0.5, 1.0].
-      // Actual fall delta = uFallSpeed * vel.z, computed live in update shader.
-      vel.x = float(0.0);
-      vel.y = float(0.0);
-      vel.z = rs.mul(0.5).add(0.5); // random speed multiplier, NOT absolute speed
-      vel.w = rs; // random seed for drift
+    const initFn = Fn(() => {
+      If(instanceIndex.greaterThanEqual(uInitFrom), () => {
+        const pos = posBuffer.element(instanceIndex);
+        const vel = velBuffer.element(instanceIndex);
+
+        const rx = stream(uSeed, 0);
+        const ry = stream(uSeed, 1);
+        const rz = stream(uSeed, 2);
+        const rs = stream(uSeed, 3);
+
+        // Spawn in the spawn rect, scattered vertically
+        pos.x = mix(uSpawnMin.x, uSpawnMax.x, rx);
+        pos.y = mix(uSpawnMin.y, uSpawnMax.y, ry);
+        // altitude [0, altSpan] above the local ground
+        pos.z = groundAt(pos.x, pos.y).add(rz.mul(uAltSpan));
+        // vel.z is a per-particle random number [0, 1] that picks the fall
+        // speed multiplier within [1 - uSpeedJitter, 1] in the update shader.
+        vel.x = float(0.0);
+        vel.y = float(0.0);
+        vel.z = rs; // random speed factor, NOT absolute speed
+      });
     });
 
     this.computeInit = initFn().compute(N);
 
     // ----- computeUpdate -----
-    const uWindX = this.uWindX;
-    const uWindY = this.uWindY;
+    const uSpeedJitter = this.uSpeedJitter;
+    const hitsBuffer = this.hitsBuffer!;
+    const uAccumEnabled = this.uAccumEnabled;
+    const uAccumMin = this.uAccumMin;
+    const uAccumTexel = this.uAccumTexel;
+    const uAccumSlot = this.uAccumSlot;
+    const uGrowing = this.uGrowing;
+    const uGrowFrom = this.uGrowFrom;
+    const uGrowTo = this.uGrowTo;
+    const uGrowScale = this.uGrowScale;
+    const uTime = this.uTime;
+    const uTurbulenceOrigin = this.uTurbulenceOrigin;
+    const uTurbulenceScale = this.uTurbulenceScale;
+    const uTurbulenceSpeed = this.uTurbulenceSpeed;
+    const uGustFrequency = this.uGustFrequency;
+    const uGustAmplitude = this.uGustAmplitude;
+    const uPointer = this.uPointer;
+    const uPointerRadius = this.uPointerRadius;
+    const uPointerSpeed = this.uPointerSpeed;
+    const uPointerSwirl = this.uPointerSwirl;
+
+    // Wind speed multiplier from gusts (gustFactor() in turbulence.ts).
+    const [harmonic, harmonicWeight, harmonicPhase] = GUST_HARMONIC;
+    const gustCycle = uTime.mul(uGustFrequency).mul(2 * Math.PI);
+    const gust = float(1.0).add(
+      uGustAmplitude.mul(
+        sin(gustCycle)
+          .add(
+            sin(gustCycle.mul(harmonic).add(harmonicPhase)).mul(harmonicWeight),
+          )
+          .div(1 + harmonicWeight),
+      ),
+    );
+
+    // Eddy velocity, about unit speed (eddyVelocity() in turbulence.ts).
+    const eddyAt = (x: TslNode, y: TslNode) => {
+      const p = vec2(x, y).sub(uTurbulenceOrigin).div(uTurbulenceScale);
+      const k = (2 * Math.PI) / TURBULENCE_PERIOD;
+      const weight = 1 / Math.sqrt(EDDY_WAVES.length);
+      let eddy: TslNode = vec2(0.0, 0.0);
+      for (const [a, b, rate] of EDDY_WAVES) {
+        const norm = Math.hypot(a, b);
+        const c = cos(
+          p.x
+            .mul(k * a)
+            .add(p.y.mul(k * b))
+            .add(uTime.mul(rate)),
+        );
+        eddy = eddy.add(vec2(b / norm, -a / norm).mul(c));
+      }
+      return eddy.mul(weight);
+    };
+
+    // A flake's flutter, unit amplitude (flutterVelocity() in
+    // turbulence.ts), from its own random streams.
+    const flutterAt = () => {
+      const random = (k: number) => stream(uSeed, FLUTTER_STREAM + k);
+      const angle = random(0).mul(2 * Math.PI);
+      const rate = random(1)
+        .mul(FLUTTER_MAX_RATE - FLUTTER_MIN_RATE)
+        .add(FLUTTER_MIN_RATE);
+      const sway = sin(
+        rate
+          .mul(uTime)
+          .add(random(2))
+          .mul(2 * Math.PI),
+      );
+      return vec2(cos(angle), sin(angle)).mul(sway);
+    };
+
+    // The pointer's velocity in xy and how strongly it acts in z
+    // (pointerVelocity() in interaction.ts).
+    const pointerAt = (x: TslNode, y: TslNode) => {
+      const offset = vec2(x, y).sub(uPointer);
+      const distance = length(offset);
+      const reach = max(float(1.0).sub(distance.div(uPointerRadius)), 0.0);
+      const weight = reach.mul(reach).mul(step(1e-20, uPointerSpeed));
+      const away = offset.div(max(distance, 1e-12));
+      const around = vec2(float(0.0).sub(away.y), away.x);
+      const push = mix(away, around, uPointerSwirl).mul(
+        uPointerSpeed.mul(weight),
+      );
+      return vec3(push.x, push.y, weight);
+    };
+
+    // Wrap a coordinate into [lo, lo + span) when it is outside [lo, hi].
+    const wrap = (value: TslNode, lo: TslNode, hi: TslNode, span: TslNode) => {
+      const apply = () => {
+        const offset = value.sub(lo);
+        value.assign(lo.add(offset.sub(offset.div(span).floor().mul(span))));
+      };
+      If(value.lessThan(lo), apply);
+      If(value.greaterThan(hi), apply);
+    };
 
     const updateFn = Fn(() => {
       const pos = posBuffer.element(instanceIndex);
       const vel = velBuffer.element(instanceIndex);
-      // Fall: actual delta = uFallSpeed * per-particle multiplier (vel.z)
-      // Wind: uWindX / uWindY are already in merc-units/frame
-      pos.x = pos.x.add(uWindX);
-      pos.y = pos.y.add(uWindY);
-      pos.z = pos.z.sub(uFallSpeed.mul(vel.z));
-
-      // Only respawn when particle has fallen below ground (pos.z < 0).
-      // No horizontal OOB check — that caused jitter when uCenter moved each frame.
-      If(pos.z.lessThan(float(0.0)), () => {
-        const rx2 = hash(
-          instanceIndex.add(uint(Math.floor(Math.random() * 0xffffff))),
-        );
-        const ry2 = hash(
-          instanceIndex.add(uint(Math.floor(Math.random() * 0xffffff))),
+
+      // Spread over a volume that grew since the last step.
+      If(uGrowing.greaterThan(0.5), () => {
+        const height = pos.z.sub(groundAt(pos.x, pos.y));
+        pos.x = uGrowTo.x.add(pos.x.sub(uGrowFrom.x).mul(uGrowScale.x));
+        pos.y = uGrowTo.y.add(pos.y.sub(uGrowFrom.y).mul(uGrowScale.y));
+        pos.z = groundAt(pos.x, pos.y).add(height.mul(uGrowScale.z));
+      });
+
+      // Fall: actual delta = uFallSpeed * per-particle multiplier from vel.z
+      // Wind: windAt() is already in merc-units/frame
+      const speedMul = float(1.0).sub(uSpeedJitter.mul(float(1.0).sub(vel.z)));
+      // Light areas of the intensity field fall slower.
+      const fieldFall = mix(
+        float(FIELD_MIN_FALL),
+        float(1.0),
+        localIntensity(pos.x, pos.y),
+      );
+      const wind = windAt(pos.x, pos.y).mul(gust);
+      // vel.xy: the flake's drift velocity, easing towards the local eddies
+      // and the pointer's push, faster near the pointer.
+      const eddy = eddyAt(pos.x, pos.y).mul(uTurbulenceSpeed);
+      const pointer = pointerAt(pos.x, pos.y);
+      const response = mix(
+        float(EDDY_RESPONSE),
+        float(POINTER_RESPONSE),
+        pointer.z,
+      );
+      vel.x = vel.x.add(eddy.x.add(pointer.x).sub(vel.x).mul(response));
+      vel.y = vel.y.add(eddy.y.add(pointer.y).sub(vel.y).mul(response));
+      const flutter = flutterAt().mul(uTurbulenceSpeed);
+      pos.x = pos.x.add(wind.x).add(vel.x).add(flutter.x);
+      pos.y = pos.y.add(wind.y).add(vel.y).add(flutter.y);
+      pos.z = pos.z.sub(uFallSpeed.mul(speedMul).mul(fieldFall));
+
+      // Keep the volume full as the camera moves: particles leaving it
+      // horizontally come back in on the far side, at the same height, and
+      // those above it (after zooming in) drop into it. Respawning them
+      // instead jittered the volume's edges as the spawn rect moved.
+      const spawnSize = uSpawnMax.sub(uSpawnMin);
+      wrap(pos.x, uSpawnMin.x, uSpawnMax.x, spawnSize.x);
+      wrap(pos.y, uSpawnMin.y, uSpawnMax.y, spawnSize.y);
+      const ground = groundAt(pos.x, pos.y);
+      If(pos.z.greaterThan(ground.add(uAltSpan)), () => {
+        const height = pos.z.sub(ground);
+        pos.z = ground.add(
+          height.sub(height.div(uAltSpan).floor().mul(uAltSpan)),
         );
-        pos.x = uCenter.x.add(rx2.mul(uHalfSpan.mul(2.0)).sub(uHalfSpan));
-        pos.y = uCenter.y.add(ry2.mul(uHalfSpan.mul(2.0)).sub(uHalfSpan));
-        pos.z = uAltSpan; // respawn at top
+      });
+
+      // Respawn when a particle has fallen below ground (sea level, or the
+      // terrain surface with 3D terrain on).
+      If(pos.z.lessThan(groundAt(pos.x, pos.y)), () => {
+        // Count the landing towards ground cover (visible particles only).
+        const land = vec2(pos.x, pos.y).sub(uAccumMin).div(uAccumTexel).floor();
+        const counts = uAccumEnabled
+          .mul(insideUnit(land.add(0.5).div(ACCUMULATION_SIZE)))
+          .mul(visibleAt(pos.x, pos.y));
+        If(counts.greaterThan(0.5), () => {
+          const slot = mod(land.add(uAccumSlot), ACCUMULATION_SIZE);
+          atomicAdd(
+            hitsBuffer.element(uint(slot.y.mul(ACCUMULATION_SIZE).add(slot.x))),
+            uint(1),
+          );
+        });
+        // New streams every step (see simulate()).
+        const rx2 = stream(uRespawnSalt, 0);
+        const ry2 = stream(uRespawnSalt, 1);
+        pos.x = mix(uSpawnMin.x, uSpawnMax.x, rx2);
+        pos.y = mix(uSpawnMin.y, uSpawnMax.y, ry2);
+        pos.z = groundAt(pos.x, pos.y).add(uAltSpan); // respawn at top
       });
     });
 
@@ -253,53 +1144,403 @@ class SnowGPU {
     const uRadiusPx = this.uRadiusPx;
     const uColor = this.uColor;
     const uOpacity = this.uOpacity;
-    const uMainMatrix = this.uMainMatrix;
+    const uSizeScale = this.uSizeScale;
+    const uStretch = this.uStretch;
+    const uSoftness = this.uSoftness;
+    const uTail = this.uTail;
+    const uAmbient = this.uAmbient;
+    const uTint = this.uTint;
+    const uAlpha = this.uAlpha;
     const uViewportW = this.uViewportW;
     const uViewportH = this.uViewportH;
 
     // Screen-space billboard positionNode:
-    // 1. Build a vec4 center in mercator world space (w=1).
-    // 2. Project it to clip space using MapLibre's main matrix.
-    // 3. Convert to NDC, add pixel-aligned offsets, output as positionNode.
+    // 1. Project the mercator centre to clip space (mercator or globe).
+    // 2. Convert to NDC, add pixel-aligned offsets, output as positionNode.
     // This is immune to mercator Z-scale distortion that broke the world-space billboard.
     const particlePos = posBuffer.element(instanceIndex);
-    const center4 = vec4(
+    const clipCenter = this._project(
       particlePos.x,
       particlePos.y,
       particlePos.z,
-      float(1.0),
     );
-    const clipCenter = uMainMatrix.mul(center4);
     const w = clipCenter.w;
-    // localX/localY are in [-1, 1] (PlaneGeometry). Convert radius from CSS pixels to NDC.
+    const ndcCenter = vec2(clipCenter.x.div(w), clipCenter.y.div(w));
+
+    // Screen-space direction of travel, used to align streaks (rain/sleet).
+    // Project a point a fixed distance along the normalised velocity — the
+    // per-frame delta itself is below float32 precision in mercator space.
+    const localWind = windAt(particlePos.x, particlePos.y);
+    const velocity = vec3(localWind.x, localWind.y, float(0.0).sub(uFallSpeed));
+    const velDir = velocity.div(max(length(velocity), float(1e-12)));
+    const ahead = this._project(
+      particlePos.x.add(velDir.x.mul(uHalfSpan.mul(0.01))),
+      particlePos.y.add(velDir.y.mul(uHalfSpan.mul(0.01))),
+      particlePos.z.add(velDir.z.mul(uHalfSpan.mul(0.01))),
+    );
+    const dirPx = vec2(ahead.x.div(ahead.w), ahead.y.div(ahead.w))
+      .sub(ndcCenter)
+      .mul(vec2(uViewportW, uViewportH));
+    // The small +Y bias keeps normalize() defined (screen-down) when still.
+    const along = normalize(dirPx.add(vec2(0.0, 1e-4)));
+
+    // localX/localY are in [-1, 1] (PlaneGeometry). localY runs along the
+    // streak (the direction of travel, bent by camera motion), localX
+    // across it; both are scaled in CSS pixels and then converted to NDC.
     const localX = dot(positionLocal, vec3(1, 0, 0));
     const localY = dot(positionLocal, vec3(0, 1, 0));
-    const rNDC_x = uRadiusPx.mul(float(2.0)).div(uViewportW);
-    const rNDC_y = uRadiusPx.mul(float(2.0)).div(uViewportH);
-    const ndcX = clipCenter.x.div(w).add(localX.mul(rNDC_x));
-    const ndcY = clipCenter.y.div(w).add(localY.mul(rNDC_y));
+
+    // Per-particle appearance, one random stream per property (see
+    // appearance.ts).
+    const flakeRandom = (k: number) => stream(uSeed, FLAKE_STREAM + k);
+    const n = SIZE_CURVE_SAMPLES;
+    const sizeMul = texture(
+      this.sizeCurveTexture,
+      vec2(
+        flakeRandom(0)
+          .mul((n - 1) / n)
+          .add(0.5 / n),
+        0.5,
+      ),
+    ).x.mul(this.uSizeMax);
+    const spinAngle = varying(
+      flakeRandom(1)
+        .mul(2 * Math.PI)
+        .add(flakeRandom(2).mul(2.0).sub(1.0).mul(this.uSpin).mul(this.uTime)),
+    );
+    // Tumbling squeezes the flake across as it turns edge-on.
+    const tumble = varying(
+      max(
+        abs(
+          cos(
+            flakeRandom(3)
+              .mul(2 * Math.PI)
+              .add(
+                flakeRandom(4)
+                  .mul(0.5)
+                  .add(0.5)
+                  .mul(this.uTumble)
+                  .mul(this.uTime),
+              ),
+          ),
+        ),
+        0.15,
+      ),
+    );
+    const shapePick = varying(flakeRandom(5));
+    const cellPick = varying(flakeRandom(6));
+
+    // Perspective sizing scales by the map centre's w over the particle's.
+    // Depth of field grows the quad by the blur and draws the flake smaller
+    // inside it (focus = sharp radius / drawn radius), fading it out.
+    const viewDistance = w.div(this.uCameraDistance);
+    const perspective = mix(
+      float(1.0),
+      min(float(1.0).div(max(viewDistance, 1e-6)), PERSPECTIVE_MAX_SCALE),
+      this.uPerspective,
+    );
+    const sharpRadius = uRadiusPx.mul(uSizeScale).mul(sizeMul).mul(perspective);
+    const defocus = varying(
+      clamp(
+        abs(viewDistance.sub(this.uFocusDistance))
+          .sub(this.uFocusRange)
+          .div(max(this.uFocusDistance.sub(this.uFocusRange), 1e-3)),
+        0.0,
+        1.0,
+      ).mul(step(1e-6, this.uMaxBlur)),
+    );
+    const radius = sharpRadius.add(defocus.mul(this.uMaxBlur));
+    const focus = varying(sharpRadius.div(max(radius, 1e-6)));
+    // Camera motion at the flake's screen position (see interaction.ts),
+    // capped at uStreakMax. The flake is smeared along it in the same sense
+    // as its direction of travel, so the two add up.
+    const screenPx = ndcCenter.mul(vec2(uViewportW, uViewportH)).mul(0.5);
+    const turnCos = cos(this.uCameraTurn).sub(1.0);
+    const turnSin = sin(this.uCameraTurn);
+    const cameraMotion = this.uCameraShift
+      .add(
+        vec2(
+          screenPx.x.mul(turnCos).sub(screenPx.y.mul(turnSin)),
+          screenPx.x.mul(turnSin).add(screenPx.y.mul(turnCos)),
+        ),
+      )
+      .add(screenPx.mul(this.uCameraZoom));
+    const smear = cameraMotion.mul(
+      min(float(1.0), this.uStreakMax.div(max(length(cameraMotion), 1e-6))),
+    );
+    const aligned = smear.mul(step(0.0, dot(smear, along)).mul(2.0).sub(1.0));
+    const streak = along.mul(radius.mul(uStretch)).add(aligned.mul(0.5));
+    const streakLength = length(streak);
+    const streakDir = streak.div(max(streakLength, 1e-6));
+    const across = vec2(float(0.0).sub(streakDir.y), streakDir.x);
+    const offsetPx = streakDir
+      .mul(localY.mul(streakLength))
+      .add(across.mul(localX.mul(radius)));
+    const ndcX = ndcCenter.x.add(offsetPx.x.mul(2.0).div(uViewportW));
+    const ndcY = ndcCenter.y.add(offsetPx.y.mul(2.0).div(uViewportH));
     const ndcZ = clipCenter.z.div(w);
+    const glow = varying(glowAt(particlePos.x, particlePos.y, particlePos.z));
+    const visibility = varying(
+      visibleAt(particlePos.x, particlePos.y).mul(
+        this._globeVisibility(particlePos.x, particlePos.y),
+      ),
+    );
+
     // positionNode is treated as clip-space by the identity camera.
     // Three.js appends w=1 giving gl_Position = vec4(ndcX, ndcY, ndcZ, 1) — correct.
-    material.positionNode = vec3(ndcX, ndcY, ndcZ);
+    const clipPosition = vec3(ndcX, ndcY, ndcZ);
+    material.positionNode = clipPosition;
 
-    // 3D sphere shading: crisp circular disc + Lambertian diffuse.
+    // 3D sphere shading: circular disc + Lambertian diffuse.
     // dist = 0 at UV centre, 0.5 at the disc edge (PlaneGeometry UV is [0,1]).
-    // Quad corners reach dist ~0.707 and are fully transparent.
+    // Quad corners reach dist ~0.707 and are fully transparent. Stretched
+    // quads turn the disc into an ellipse, which is what rain streaks use.
     const dist = uv().distance(float(0.5));
-    // Crisp circular disc with soft antialiased edge (~1px falloff at rim).
-    const mask = float(1.0).sub(smoothstep(float(0.42), float(0.5), dist));
+    // Disc edge: snow's softness (0.16) gives the original 0.42–0.5 falloff;
+    // out of focus the whole disc goes soft.
+    const softness = mix(uSoftness, float(1.0), defocus);
+    const mask = float(1.0).sub(
+      smoothstep(float(0.5).sub(softness.mul(0.5)), float(0.5), dist),
+    );
     // Lambertian diffuse: bright at centre (normal faces viewer), dims at rim.
     const ndotl = float(1.0).sub(smoothstep(float(0.0), float(0.5), dist));
-    // 30% ambient + 70% diffuse = full white centre, 30% grey rim -> sphere illusion.
-    const brightness = float(0.3).add(ndotl.mul(float(0.7)));
-    material.colorNode = vec4(uColor.mul(brightness), mask.mul(uOpacity));
+    // Snow: 30% ambient + 70% diffuse = full white centre, 30% grey rim.
+    const brightness = uAmbient.add(ndotl.mul(float(1.0).sub(uAmbient)));
+    // Crystal look, blended in by the profile's `crystal`: flake-local
+    // coordinates turned by the spin and squeezed by the tumble, then the
+    // picked shape or sprite cell.
+    const centred = uv().sub(0.5);
+    const turned = vec2(
+      centred.x.mul(cos(spinAngle)).sub(centred.y.mul(sin(spinAngle))),
+      centred.x.mul(sin(spinAngle)).add(centred.y.mul(cos(spinAngle))),
+    );
+    const q = vec2(turned.x.div(tumble), turned.y).div(focus);
+    const disc = float(1.0).sub(
+      smoothstep(float(0.5).sub(uSoftness.mul(0.5)), float(0.5), length(q)),
+    );
+    const shapeMix = this.uShapeMix;
+    const shaped = mix(
+      mix(disc, plateMask(q), step(shapeMix.x, shapePick)),
+      dendriteMask(q),
+      step(shapeMix.y, shapePick),
+    );
+    const grid = this.uSpriteGrid;
+    const cell = cellPick.mul(grid.x.mul(grid.y)).floor();
+    const row = cell.div(grid.x).floor();
+    const cellOrigin = vec2(
+      cell.sub(row.mul(grid.x)),
+      grid.y.sub(1.0).sub(row),
+    );
+    const local = q.add(0.5);
+    const inCell = step(0.0, local.x)
+      .mul(step(local.x, 1.0))
+      .mul(step(0.0, local.y))
+      .mul(step(local.y, 1.0));
+    this.spriteNode = texture(
+      this.spriteTexture ?? this.spritePlaceholder,
+      cellOrigin.add(clamp(local, 0.0, 1.0)).div(grid),
+    );
+    const sprite = this.spriteNode;
+    const crystalMask = mix(shaped, sprite.w.mul(inCell), this.uSpritesEnabled);
+    const spriteColor = mix(
+      vec3(1.0, 1.0, 1.0),
+      sprite.xyz,
+      this.uSpritesEnabled.mul(this.uCrystal),
+    );
+    // Blurred flakes become soft discs, spreading the same light wider.
+    const flakeMask = mix(mix(mask, crystalMask, this.uCrystal), mask, defocus)
+      .mul(focus)
+      .mul(focus);
+
+    // Streaks fade towards their trailing end (uv.y = 0).
+    const tailFade = mix(float(1.0), uv().y, uTail);
+    const alpha = flakeMask
+      .mul(tailFade)
+      .mul(visibility)
+      .mul(uOpacity)
+      .mul(uAlpha);
+    // Sunlight tints the flake; nearby point lights add their glow.
+    material.colorNode = vec4(
+      uColor
+        .mul(uTint)
+        .mul(brightness)
+        .mul(spriteColor)
+        .mul(this.uLight.add(glow)),
+      alpha,
+    );
 
     this.snowMesh = new THREE.Mesh(geometry, material);
     this.snowMesh.count = N;
     this.snowMesh.frustumCulled = false;
 
     this.scene.add(this.snowMesh);
+
+    if (!this.composite) return;
+
+    // Depth pass: the same quads, opaque and depth-tested, writing window
+    // depth (ndcZ mapped to 0–1) packed into 24 bits of RGB. Nearly
+    // transparent corners are discarded so the flake keeps its shape.
+    const depthMaterial = new THREE.MeshBasicNodeMaterial({
+      transparent: false,
+      depthWrite: true,
+      depthTest: true,
+    });
+    Object.assign(depthMaterial, { side: 2 });
+    depthMaterial.positionNode = clipPosition;
+    depthMaterial.alphaTest = 0.05;
+    const depth = varying(ndcZ.mul(0.5).add(0.5));
+    const r = fract(depth);
+    const g = fract(depth.mul(255.0));
+    const b = fract(depth.mul(65025.0));
+    depthMaterial.colorNode = vec4(
+      r.sub(g.div(255.0)),
+      g.sub(b.div(255.0)),
+      b,
+      alpha,
+    );
+
+    this.depthMesh = new THREE.Mesh(geometry, depthMaterial);
+    this.depthMesh.count = N;
+    this.depthMesh.frustumCulled = false;
+    this.depthMesh.visible = false;
+    this.scene.add(this.depthMesh);
+  }
+
+  // Mercator position and altitude to clip space: MapLibre's mercator matrix
+  // blended into its globe matrix by uGlobe (see SnowProjection).
+  private _project(x: TslNode, y: TslNode, z: TslNode): TslNode {
+    const flat = this.uFallbackMatrix.mul(vec4(x, y, z, float(1.0)));
+    const globe = this.uMainMatrix.mul(
+      vec4(this._spherePosition(x, y, z), float(1.0)),
+    );
+    return mix(flat, globe, this.uGlobe);
+  }
+
+  // MapLibre's unit-sphere position for a mercator point, raised radially by
+  // the altitude: merc units are metres / (circumference · cos(lat)), so the
+  // radius grows by altitude · 2π · cos(lat).
+  private _spherePosition(x: TslNode, y: TslNode, z: TslNode): TslNode {
+    const lng = x.mul(2 * Math.PI).add(Math.PI);
+    const lat = atan(exp(float(Math.PI).sub(y.mul(2 * Math.PI))))
+      .mul(2.0)
+      .sub(Math.PI / 2);
+    const cosLat = cos(lat);
+    const lift = float(1.0).add(z.mul(2 * Math.PI).mul(cosLat));
+    return vec3(sin(lng).mul(cosLat), sin(lat), cos(lng).mul(cosLat)).mul(lift);
+  }
+
+  // On a globe, hide particles behind the horizon and past the poles (the
+  // spawn box can reach beyond mercator's 0–1 at low zoom).
+  private _globeVisibility(x: TslNode, y: TslNode): TslNode {
+    const plane = this.uClippingPlane;
+    const sphere = this._spherePosition(x, y, float(0.0));
+    const front = step(0.0, dot(sphere, plane.xyz).add(plane.w));
+    const onMap = step(0.0, y).mul(step(y, 1.0));
+    return mix(float(1.0), front.mul(onMap), this.uGlobe);
+  }
+
+  // Ground altitude in merc units at a mercator position; the sampler clamps
+  // to the heightmap edge outside it.
+  private _groundAt(x: TslNode, y: TslNode): TslNode {
+    const uv = vec2(x, y).sub(this.uTerrainMin).div(this.uTerrainSize);
+    return this.uTerrainBase.add(
+      texture(this.terrainTexture, uv).x.mul(this.uTerrainRange),
+    );
+  }
+
+  private _buildGroundCover(): void {
+    if (!this.scene) return;
+    const n = ACCUMULATION_SIZE;
+    const hitsBuffer = instancedArray(n * n, 'uint').toAtomic();
+    const coverageBuffer = instancedArray(n * n, 'float');
+    const coverageTexture = new THREE.StorageTexture(n, n);
+    // Slots are addressed toroidally; the repeat sampler does the wrap.
+    coverageTexture.wrapS = THREE.RepeatWrapping;
+    coverageTexture.wrapT = THREE.RepeatWrapping;
+    this.hitsBuffer = hitsBuffer;
+    this.coverageBuffer = coverageBuffer;
+    this.coverageTexture = coverageTexture;
+
+    // ----- computeAccumulate: one invocation per slot -----
+    const uAccumSlot = this.uAccumSlot;
+    const uAccumPrevSlot = this.uAccumPrevSlot;
+    const uAccumShift = this.uAccumShift;
+    const uAccumPerHit = this.uAccumPerHit;
+    const uAccumMelt = this.uAccumMelt;
+    const uAccumMax = this.uAccumMax;
+    const uAccumClear = this.uAccumClear;
+
+    const accumulateFn = Fn(() => {
+      const sx = float(instanceIndex.mod(n));
+      const sy = float(instanceIndex.div(n));
+      const hits = hitsBuffer.element(instanceIndex);
+      const landed = float(atomicLoad(hits));
+      atomicStore(hits, uint(0));
+      // World texel held by this slot now, minus the one it held before the
+      // window moved; non-zero when the slot wrapped to the opposite edge.
+      const movedX = mod(sx.sub(uAccumSlot.x), n)
+        .sub(mod(sx.sub(uAccumPrevSlot.x), n))
+        .add(uAccumShift.x);
+      const movedY = mod(sy.sub(uAccumSlot.y), n)
+        .sub(mod(sy.sub(uAccumPrevSlot.y), n))
+        .add(uAccumShift.y);
+      const stale = max(
+        max(step(0.5, abs(movedX)), step(0.5, abs(movedY))),
+        uAccumClear,
+      );
+      const cov = coverageBuffer.element(instanceIndex);
+      const value = clamp(
+        cov
+          .mul(float(1.0).sub(stale))
+          .add(landed.mul(uAccumPerHit))
+          .sub(uAccumMelt),
+        0.0,
+        uAccumMax,
+      ).toVar();
+      cov.assign(value);
+      textureStore(
+        coverageTexture,
+        uvec2(instanceIndex.mod(n), instanceIndex.div(n)),
+        vec4(value, 0.0, 0.0, 1.0),
+      );
+    });
+    this.computeAccumulate = accumulateFn().compute(n * n);
+
+    // ----- Ground mesh: the window as a grid draped over the terrain -----
+    const geometry = new THREE.PlaneGeometry(1, 1, 64, 64);
+    const material = new THREE.MeshBasicNodeMaterial({
+      transparent: true,
+      depthWrite: false,
+      depthTest: false,
+    });
+    Object.assign(material, { side: 2 });
+    const uAccumMin = this.uAccumMin;
+    const uAccumTexel = this.uAccumTexel;
+    const windowUV = vec2(positionLocal.x.add(0.5), positionLocal.y.add(0.5));
+    const x = uAccumMin.x.add(windowUV.x.mul(uAccumTexel.mul(n)));
+    const y = uAccumMin.y.add(windowUV.y.mul(uAccumTexel.mul(n)));
+    material.vertexNode = this._project(x, y, this._groundAt(x, y));
+    const fragUV = varying(windowUV);
+    const coverageUV = fragUV.mul(n).add(uAccumSlot).div(n);
+    // Fade out towards the window edge instead of cutting off.
+    const edge = smoothstep(0.0, 0.1, fragUV.x)
+      .mul(smoothstep(0.0, 0.1, float(1.0).sub(fragUV.x)))
+      .mul(smoothstep(0.0, 0.1, fragUV.y))
+      .mul(smoothstep(0.0, 0.1, float(1.0).sub(fragUV.y)));
+    const onGlobe = varying(this._globeVisibility(x, y));
+    material.colorNode = vec4(
+      this.uColor.mul(this.uLight),
+      texture(coverageTexture, coverageUV)
+        .x.mul(edge)
+        .mul(onGlobe)
+        .mul(this.uOpacity),
+    );
+
+    this.groundMesh = new THREE.Mesh(geometry, material);
+    this.groundMesh.frustumCulled = false;
+    this.groundMesh.renderOrder = -1;
+    this.groundMesh.visible = false;
+    this.scene.add(this.groundMesh);
   }
 
   private _buildFogOverlay(): void {
@@ -313,19 +1554,43 @@ class SnowGPU {
       depthTest: false,
     });
 
-    const uFogOpacity = this.uFogOpacity;
-
-    // Radial vignette fog (blue-white tint)
-    const vignette = screenUV.distance(float(0.5)).mul(2.0).saturate();
+    // View ray through this pixel, in mercator offsets from the map centre
+    // (viewportUV runs top-down, clip space bottom-up).
+    const ndc = vec2(
+      viewportUV.x.mul(2).sub(1),
+      float(1).sub(viewportUV.y.mul(2)),
+    );
+    const nearH = this.uFogInverse.mul(vec4(ndc, -1, 1));
+    const farH = this.uFogInverse.mul(vec4(ndc, 1, 1));
+    const near = nearH.xyz.div(nearH.w);
+    const ray = farH.xyz.div(farH.w).sub(near);
+
+    // Distance to where the ray meets sea level; rays that miss it take the
+    // full fog distance. t is clamped so the sky stays finite.
+    const hit = step(ray.z, -1e-12);
+    const t = clamp(near.z.mul(-1).div(min(ray.z, -1e-12)), 0, 16);
+    const ground = near.add(ray.mul(t));
+    const groundDistance = dot(this.uFogDepthRow, vec4(ground, 1)).div(
+      this.uCameraDistance,
+    );
+    const fogDistance = mix(
+      this.uFogEnd,
+      min(groundDistance, this.uFogEnd),
+      hit,
+    );
+    const height = max(fogDistance.mul(ray.z.div(length(ray))), 0);
+    const fog = smoothstep(this.uFogStart, this.uFogEnd, fogDistance).mul(
+      exp(height.mul(-Math.LN2).div(this.uFogFalloff)),
+    );
     mat.colorNode = vec4(
-      color(0xffffff), // white atmospheric haze (matches Mapbox vignette-color: #ffffff)
-      vignette.mul(uFogOpacity),
+      this.uFogColor.mul(this.uLight),
+      fog.mul(this.uFogOpacity),
     );
 
     this.fogMesh = new THREE.Mesh(geo, mat);
     this.fogMesh.frustumCulled = false;
     this.fogMesh.renderOrder = 999;
-    this.fogMesh.visible = this._fogEnabled;
+    this.fogMesh.visible = false;
 
     this.scene.add(this.fogMesh);
   }
@@ -334,7 +1599,7 @@ class SnowGPU {
   // Called by MaplibreSnowLayer.render() every frame
   // -------------------------------------------------------------------------
 
-  frame(projMatrix: Float32Array, cssWidth: number, cssHeight: number): void {
+  frame(projection: SnowProjection, cssWidth: number, cssHeight: number): void {
     if (!this.renderer || !this.scene || !this.camera || !this.initialized)
       return;
 
@@ -344,27 +1609,123 @@ class SnowGPU {
     this.camera.projectionMatrixInverse.identity();
 
     // Update screen-space billboard uniforms
-    this.uMainMatrix.value.fromArray(projMatrix);
+    this.uMainMatrix.value.fromArray(projection.mainMatrix);
+    this.uFallbackMatrix.value.fromArray(projection.fallbackMatrix);
+    this.uGlobe.value = projection.globe;
+    this.uClippingPlane.value.set(...projection.clippingPlane);
+    this.uCameraDistance.value = projection.cameraDistance;
     this.uViewportW.value = cssWidth;
     this.uViewportH.value = cssHeight;
 
-    // Run compute
-    if (this.computeUpdate) {
-      this.renderer.compute(this.computeUpdate);
-    }
+    // Draw only the particles that can be visible.
+    const drawCount = drawCountFor(this.visibleCount);
+    if (this.snowMesh) this.snowMesh.count = drawCount;
+    if (this.depthMesh) this.depthMesh.count = drawCount;
 
     // Render
-    this.renderer.render(this.scene, this.camera);
+    if (this.composite) {
+      this._renderComposite();
+    } else {
+      this.shared?.render(this.scene, this.camera);
+    }
+  }
+
+  // Colour into the left half of the canvas, flake depth into the right.
+  private _renderComposite(): void {
+    const renderer = this.renderer!;
+    const scene = this.scene!;
+    const camera = this.camera!;
+    const w = this.shared!.compositeWidth;
+    const h = this.shared!.compositeHeight;
+    const colorMeshes = [this.snowMesh, this.groundMesh, this.fogMesh];
+    const shown = colorMeshes.map((mesh) => mesh?.visible ?? false);
+
+    renderer.clear();
+    renderer.setViewport(0, 0, w, h);
+    renderer.render(scene, camera);
+
+    if (!this.depthMesh) return;
+    for (const mesh of colorMeshes) if (mesh) mesh.visible = false;
+    this.depthMesh.visible = true;
+    // Packed depth must reach the canvas as written, without sRGB encoding.
+    const colorSpace = renderer.outputColorSpace;
+    renderer.outputColorSpace = THREE.LinearSRGBColorSpace;
+    renderer.setViewport(w, 0, w, h);
+    renderer.render(scene, camera);
+    renderer.outputColorSpace = colorSpace;
+    this.depthMesh.visible = false;
+    colorMeshes.forEach((mesh, i) => {
+      if (mesh) mesh.visible = shown[i]!;
+    });
   }
 
-  // Called once on first render to initialize particle positions
+  // Called once on first render; the particles spawn in simulate().
   private _initRan = false;
   runInit(): void {
     if (this._initRan || !this.computeInit || !this.renderer) return;
-    this.renderer.compute(this.computeInit);
+    this.liveCount = 0;
+    this.stepIndex = 0;
+    this.uTime.value = 0;
+    this.stepRect = this.spawn;
+    this.stepAltSpan = this.uAltSpan.value;
     this._initRan = true;
   }
 
+  simulate(steps: number): void {
+    if (!this.renderer || !this.computeUpdate || !this._initRan) return;
+    if (steps > 0) this._prepareGrowth();
+    const N = MAX_PARTICLE_COUNT;
+    for (let i = 0; i < steps; i++) {
+      // Two new respawn streams per step (see FLAKE_STREAM).
+      this.uRespawnSalt.value =
+        (this.seed + (RESPAWN_STREAM + 2 * this.stepIndex) * N) % 2 ** 32;
+      this.stepIndex++;
+      this.uTime.value += 1 / SIM_FPS;
+      this.renderer.compute(this.computeUpdate, this.liveCount);
+      this.uGrowing.value = 0;
+      if (!this.accumWindow || !this.computeAccumulate) continue;
+      this.renderer.compute(this.computeAccumulate);
+      // Only the first step after updateAccumulation() moves the window.
+      const slot = this.uAccumSlot.value;
+      this.uAccumPrevSlot.value.set(slot.x, slot.y);
+      this.uAccumShift.value.set(0, 0);
+      this.uAccumClear.value = 0;
+    }
+    this._exposeParticles();
+  }
+
+  // Simulate only the particles that can show from the next step. Those
+  // the density reaches again after a drop have been standing still, so
+  // they spawn afresh.
+  private _exposeParticles(): void {
+    const count = drawCountFor(this.visibleCount);
+    if (count > this.liveCount) {
+      this.uInitFrom.value = this.liveCount;
+      this.renderer!.compute(this.computeInit!, count);
+    }
+    this.liveCount = count;
+  }
+
+  // Spread the particles in the next step if the volume grew since the last.
+  private _prepareGrowth(): void {
+    const growth =
+      this.stepRect &&
+      this.spawn &&
+      volumeGrowth(
+        this.stepRect,
+        this.stepAltSpan,
+        this.spawn,
+        this.uAltSpan.value,
+      );
+    this.stepRect = this.spawn;
+    this.stepAltSpan = this.uAltSpan.value;
+    if (!growth) return;
+    this.uGrowing.value = 1;
+    this.uGrowFrom.value.set(growth.fromX, growth.fromY);
+    this.uGrowTo.value.set(growth.toX, growth.toY);
+    this.uGrowScale.value.set(growth.scaleX, growth.scaleY, growth.scaleZ);
+  }
+
   // -------------------------------------------------------------------------
   // Uniform updates (called from MaplibreSnowLayer)
   // -------------------------------------------------------------------------
@@ -374,15 +1735,32 @@ class SnowGPU {
     mercY: number,
     zoom: number,
     canvasCSSWidth: number,
+    pitch: number,
+    bearing: number,
+    altSpan: number | null,
   ): void {
     // Pixels per mercator unit at this zoom
     const pxToMerc = 1 / (512 * Math.pow(2, zoom));
     const halfSpan = canvasCSSWidth * pxToMerc * 1.2; // 120% of viewport width
-    const altSpan = halfSpan * 0.5;
 
-    this.uCenter.value.set(mercX, mercY);
+    const rect = spawnRect(
+      mercX,
+      mercY,
+      halfSpan,
+      pitch,
+      bearing,
+      this.boundsMask,
+    );
+    this.spawn = rect;
+    this.uSpawnMin.value.set(rect.minX, rect.minY);
+    this.uSpawnMax.value.set(rect.maxX, rect.maxY);
+    this.visibleCount = Math.min(
+      MAX_PARTICLE_COUNT,
+      rect.fraction * this.particleCount * this.particleScale,
+    );
+    this.uVisibleCount.value = this.visibleCount;
     this.uHalfSpan.value = halfSpan;
-    this.uAltSpan.value = altSpan;
+    this.uAltSpan.value = altSpan ?? halfSpan * 0.5;
     // Flake radius: stored separately, updated via setFlakeSize
     // (radius doesn't change per-frame unless user changes it)
   }
@@ -393,49 +1771,214 @@ class SnowGPU {
 
   updateWind(
     azimuthDeg: number,
-    speedPxPerSec: number,
-    zoom: number,
+    speed: number,
+    mercPerUnit: number,
     fps: number,
   ): void {
-    const pxToMerc = 1 / (512 * Math.pow(2, zoom));
     const azRad = (azimuthDeg * Math.PI) / 180;
-    const mercSpeedPerFrame = (speedPxPerSec * pxToMerc) / fps;
+    const perFrame = (mercPerUnit / fps) * this.windFactor;
+    const mercSpeedPerFrame = speed * perFrame;
     this.uWindX.value = Math.sin(azRad) * mercSpeedPerFrame;
     // mercY increases downward (southward), so negate cosine for northward component
     this.uWindY.value = Math.cos(azRad) * mercSpeedPerFrame;
+    this.uWindFieldScale.value = (this.windField?.scale ?? 0) * perFrame;
+    const turbulence =
+      this.turbulence &&
+      this.spawn &&
+      turbulenceFrame(
+        this.turbulence,
+        this.spawn.minX,
+        this.spawn.minY,
+        mercPerUnit,
+        perFrame,
+      );
+    this.uTurbulenceSpeed.value = turbulence?.speed ?? 0;
+    if (!turbulence) return;
+    this.uTurbulenceOrigin.value.set(turbulence.originX, turbulence.originY);
+    this.uTurbulenceScale.value = turbulence.scale;
   }
 
-  updateFallSpeed(intensity: number, zoom: number, fps: number): void {
-    const pxToMerc = 1 / (512 * Math.pow(2, zoom));
-    // base fall = 40 px/s * intensity, converted to merc/frame
-    this.uFallSpeed.value = (40 * intensity * pxToMerc) / fps;
+  setTurbulence(turbulence: Required<TurbulenceOptions> | null): void {
+    this.turbulence = turbulence;
+  }
+
+  setGusts(gusts: Required<GustOptions> | null): void {
+    this.uGustFrequency.value = gusts?.frequency ?? 0;
+    this.uGustAmplitude.value = gusts?.amplitude ?? 0;
+  }
+
+  updateCameraMotion(motion: CameraMotion | null): void {
+    this.uStreakMax.value = motion?.maxLength ?? 0;
+    if (!motion) return;
+    this.uCameraShift.value.set(motion.shiftX, motion.shiftY);
+    this.uCameraTurn.value = motion.turn;
+    this.uCameraZoom.value = motion.zoom;
+  }
+
+  updatePointer(pointer: PointerFrame | null): void {
+    this.uPointerSpeed.value = pointer?.speed ?? 0;
+    if (!pointer) return;
+    this.uPointer.value.set(pointer.x, pointer.y);
+    this.uPointerRadius.value = pointer.radius;
+    this.uPointerSwirl.value = pointer.swirl ? 1 : 0;
+  }
+
+  updateFallSpeed(speed: number, mercPerUnit: number, fps: number): void {
+    // base fall (profile speed * intensity), converted to merc/frame
+    this.uFallSpeed.value = (speed * mercPerUnit) / fps;
+  }
+
+  updatePrecipitation(profile: PrecipitationProfile): void {
+    this.uSpeedJitter.value = profile.speedJitter;
+    this.uSizeScale.value = profile.size;
+    this.uStretch.value = profile.stretch;
+    this.uSoftness.value = profile.softness;
+    this.uTail.value = profile.tail;
+    this.uAmbient.value = profile.ambient;
+    this.uTint.value.setRGB(...profile.color);
+    this.uAlpha.value = profile.alpha;
+    this.uCrystal.value = profile.crystal;
+    this.windFactor = profile.windFactor;
   }
 
   // -------------------------------------------------------------------------
   // Public API setters
   // -------------------------------------------------------------------------
 
+  // Takes effect from the next updateSpatial(); particles fade in or out.
   setDensity(density: number): void {
-    const newCount = Math.round(
-      MIN_PARTICLE_COUNT +
-        Math.max(0, Math.min(1, density)) *
-          (MAX_PARTICLE_COUNT - MIN_PARTICLE_COUNT),
+    this.particleCount = particleCountForDensity(density);
+  }
+
+  setParticleScale(scale: number): void {
+    this.particleScale = Math.max(0, Math.min(1, scale));
+  }
+
+  setSeed(seed: number): void {
+    // Scramble so that nearby seeds give unrelated layouts.
+    this.seed = Math.floor(createRandom(seed)() * 2 ** 32);
+    this.uSeed.value = this.seed;
+    this._initRan = false;
+  }
+
+  setAppearance(style: FlakeStyle): void {
+    (this.sizeCurveTexture.image.data as Uint8Array).set(style.sizeCurve);
+    this.sizeCurveTexture.needsUpdate = true;
+    this.uSizeMax.value = style.sizeMax;
+    this.uShapeMix.value.set(style.shapeMix[0], style.shapeMix[1]);
+    this.uSpin.value = style.spin;
+    this.uTumble.value = style.tumble;
+  }
+
+  setSprites(atlas: SpriteAtlas | null): void {
+    this.spriteTexture?.dispose();
+    this.spriteTexture = null;
+    this.uSpritesEnabled.value = atlas ? 1 : 0;
+    if (atlas) {
+      // Already flipped by loadSprites().
+      const tex = new THREE.Texture(atlas.image);
+      tex.flipY = false;
+      tex.colorSpace = THREE.SRGBColorSpace;
+      tex.needsUpdate = true;
+      this.spriteTexture = tex;
+      this.uSpriteGrid.value.set(atlas.columns, atlas.rows);
+    }
+    if (this.spriteNode) {
+      this.spriteNode.value = this.spriteTexture ?? this.spritePlaceholder;
+    }
+  }
+
+  setSizeMode(mode: FlakeSizeMode): void {
+    this.uPerspective.value = mode === 'perspective' ? 1 : 0;
+  }
+
+  setDepthOfField(options: Required<DepthOfFieldOptions> | null): void {
+    this.uFocusDistance.value = options?.focusDistance ?? 1;
+    this.uFocusRange.value = options?.focusRange ?? 0;
+    this.uMaxBlur.value = options?.maxBlur ?? 0;
+  }
+
+  setBoundsMask(mask: BoundsMask | null): void {
+    this.boundsMask = mask;
+    this.uBoundsEnabled.value = mask ? 1 : 0;
+    if (!mask) return;
+    (this.maskTexture.image.data as Uint8Array).set(mask.data);
+    this.maskTexture.needsUpdate = true;
+    this.uBoundsMin.value.set(mask.minX, mask.minY);
+    this.uBoundsSize.value = mask.size;
+  }
+
+  setIntensityField(field: FieldTexture | null): void {
+    this.uFieldEnabled.value = field ? 1 : 0;
+    if (!field) return;
+    (this.fieldTexture.image.data as Uint8Array).set(field.data);
+    this.fieldTexture.needsUpdate = true;
+    this.uFieldMin.value.set(field.minX, field.minY);
+    this.uFieldSize.value.set(field.sizeX, field.sizeY);
+  }
+
+  setWindField(field: WindFieldTexture | null): void {
+    this.windField = field;
+    this.uWindFieldEnabled.value = field ? 1 : 0;
+    if (!field) return;
+    (this.windFieldTexture.image.data as Uint8Array).set(field.data);
+    this.windFieldTexture.needsUpdate = true;
+    this.uWindFieldMin.value.set(field.minX, field.minY);
+    this.uWindFieldSize.value.set(field.sizeX, field.sizeY);
+  }
+
+  updateAccumulation(frame: AccumulationFrame | null): void {
+    if (this.groundMesh) this.groundMesh.visible = !!frame;
+    this.uAccumEnabled.value = frame ? 1 : 0;
+    if (!frame) {
+      this.accumWindow = null;
+      return;
+    }
+    const { window } = frame;
+    const prev = this.accumWindow;
+    this.uAccumMin.value.set(
+      window.originX * window.texelSize,
+      window.originY * window.texelSize,
     );
-    if (newCount === this.particleCount) return;
-    this.particleCount = newCount;
-    this._rebuildParticles();
+    this.uAccumTexel.value = window.texelSize;
+    this.uAccumSlot.value.set(
+      accumulationSlot(window.originX),
+      accumulationSlot(window.originY),
+    );
+    this.uAccumPrevSlot.value.set(
+      accumulationSlot(prev?.originX ?? window.originX),
+      accumulationSlot(prev?.originY ?? window.originY),
+    );
+    this.uAccumShift.value.set(
+      window.originX - (prev?.originX ?? window.originX),
+      window.originY - (prev?.originY ?? window.originY),
+    );
+    this.uAccumClear.value =
+      frame.clear || !prev || prev.texelSize !== window.texelSize ? 1 : 0;
+    this.uAccumPerHit.value = frame.perHit;
+    this.uAccumMelt.value = frame.melt;
+    this.uAccumMax.value = frame.maxCoverage;
+    this.accumWindow = window;
   }
 
-  private _rebuildParticles(): void {
-    if (!this.scene) return;
-    if (this.snowMesh) {
-      this.scene.remove(this.snowMesh);
-      this.snowMesh.geometry.dispose();
-      (this.snowMesh.material as THREE.Material).dispose();
+  async readAccumulation(): Promise<Float32Array | null> {
+    if (!this.renderer || !this.coverageBuffer || !this.accumWindow) {
+      return null;
     }
-    this._initRan = false;
-    this._buildParticleSystem();
-    // Re-run init on next frame
+    const data = await this.renderer.getArrayBufferAsync(
+      this.coverageBuffer.value,
+    );
+    return new Float32Array(data);
+  }
+
+  setTerrain(heightmap: TerrainHeightmap | null): void {
+    this.uTerrainBase.value = heightmap?.base ?? 0;
+    this.uTerrainRange.value = heightmap?.range ?? 0;
+    if (!heightmap) return;
+    (this.terrainTexture.image.data as Uint8Array).set(heightmap.data);
+    this.terrainTexture.needsUpdate = true;
+    this.uTerrainMin.value.set(heightmap.minX, heightmap.minY);
+    this.uTerrainSize.value = heightmap.size;
   }
 
   setOpacity(value: number): void {
@@ -446,31 +1989,70 @@ class SnowGPU {
     this.uColor.value.setRGB(r, g, b);
   }
 
-  setFog(enabled: boolean): void {
-    this._fogEnabled = enabled;
-    if (this.fogMesh) this.fogMesh.visible = enabled;
+  updateFog(frame: FogFrame | null): void {
+    if (this.fogMesh) this.fogMesh.visible = frame !== null;
+    if (!frame) return;
+    this.uFogColor.value.setRGB(...frame.color);
+    this.uFogStart.value = frame.start;
+    this.uFogEnd.value = frame.end;
+    this.uFogFalloff.value = frame.heightFalloff;
+    this.uFogInverse.value.fromArray(frame.inverseMatrix);
+    this.uFogDepthRow.value.set(...frame.depthRow);
+  }
+
+  updateLight(color: [number, number, number]): void {
+    this.uLight.value.setRGB(...color);
+  }
+
+  setGlow(grid: GlowGrid | null): void {
+    this.uGlowEnabled.value = grid ? 1 : 0;
+    if (!grid) return;
+    (this.glowTexture.image.data as Uint8Array).set(grid.data);
+    this.glowTexture.needsUpdate = true;
+    this.uGlowMin.value.set(grid.minX, grid.minY);
+    this.uGlowSize.value = grid.size;
+    this.uGlowBase.value = grid.base;
+    this.uGlowReach.value = Math.max(grid.reach, 1e-12);
   }
 
   setFogOpacity(value: number): void {
     this.uFogOpacity.value = Math.max(0, Math.min(1, value));
   }
 
-  resize(cssWidth: number, cssHeight: number): void {
-    if (!this.renderer) return;
-    this.renderer.setSize(cssWidth, cssHeight);
-  }
+  private _onDeviceLost = (error: SnowLayerError): void => {
+    this.onDeviceLost?.(error);
+  };
 
+  /** Frees this backend's resources; the shared renderer stays up. */
   dispose(): void {
+    this.disposed = true;
+    this.shared?.removeDeviceLostListener(this._onDeviceLost);
     if (this.snowMesh) {
       this.snowMesh.geometry.dispose();
       (this.snowMesh.material as THREE.Material).dispose();
     }
+    if (this.depthMesh) {
+      (this.depthMesh.material as THREE.Material).dispose();
+    }
     if (this.fogMesh) {
       this.fogMesh.geometry.dispose();
       (this.fogMesh.material as THREE.Material).dispose();
     }
-    this.renderer?.dispose();
-    this.resizeObserver?.disconnect();
+    if (this.groundMesh) {
+      this.groundMesh.geometry.dispose();
+      (this.groundMesh.material as THREE.Material).dispose();
+    }
+    this.coverageTexture?.dispose();
+    this.maskTexture.dispose();
+    this.fieldTexture.dispose();
+    this.windFieldTexture.dispose();
+    this.terrainTexture.dispose();
+    this.glowTexture.dispose();
+    this.sizeCurveTexture.dispose();
+    this.spritePlaceholder.dispose();
+    this.spriteTexture?.dispose();
+    this.shared = null;
+    this.renderer = null;
   }
 
   get ready(): boolean {
@@ -482,16 +2064,27 @@ class SnowGPU {
 // MapLibre Custom Layer
 // ---------------------------------------------------------------------------
 
-class MaplibreSnowLayer {
+class MaplibreSnowLayer extends SnowEvented<SnowLayerEventMap> {
   id: string;
   readonly type = 'custom' as const;
   readonly renderingMode = '3d' as const;
 
   private map: MaplibreMap | null = null;
-  private overlayCanvas: HTMLCanvasElement | null = null;
-  private overlayDiv: HTMLDivElement | null = null;
-  private gpu: SnowGPU | null = null;
-  private resizeObserver: ResizeObserver | null = null;
+  private sharedRenderer: SharedRenderer | null = null;
+  private backend: SnowBackend | null = null;
+  // Set when the WebGL2 backend should be created on the next render() call,
+  // where MapLibre hands us its context in a known state.
+  private _pendingWebGL = false;
+  private _activeRenderer: 'webgpu' | 'webgl2' | null = null;
+  // Map compositing of the WebGPU canvas, set up on the first render() call
+  // for the same reason.
+  private _compositor: MapCompositor | null = null;
+  private _pendingCompositor = false;
+  // Why no backend can draw, and whenReady() calls still waiting.
+  private _failure: SnowLayerError | null = null;
+  private _readyWaiters: ReadyWaiter[] = [];
+  // An option that failed in the constructor, reported once on the map.
+  private _constructorError: SnowLayerError | null = null;
 
   // Options
   private _density: number;
@@ -499,22 +2092,169 @@ class MaplibreSnowLayer {
   private _flakeSize: number;
   private _opacity: number;
   private _direction: [number, number];
-  private _fog: boolean;
+  private _units: SnowUnits;
+  private _cloudBase: number;
+  // Kept as given: its defaults depend on the units.
+  private _turbulence: boolean | TurbulenceOptions;
+  private _gusts: Required<GustOptions> | null;
+  private _fog: ResolvedFog | null;
   private _fogOpacity: number;
+  // Options following the camera (see expressions.ts)
+  private _expressions: Partial<Record<ExpressionOption, OptionExpression>> =
+    {};
+  private _renderer: SnowRendererType;
+  private _compositing: SnowCompositing;
+  private _precipitation: PrecipitationType;
+
+  // Precipitation cross-fade: blend from _precipFrom to the current type
+  // starting at _precipFadeStart on the layer clock (null = no fade).
+  private _precipFrom: PrecipitationProfile;
+  private _precipFadeStart: number | null = null;
+
+  // Bounds, rasterised to a mask that is handed to the backend.
+  private _bounds: SnowBounds | null;
+  private _boundsFade: number;
+  private _boundsMask: BoundsMask | null = null;
+
+  // Intensity field, resampled once to a mercator texture. A raster source
+  // is read over the tiles covering the view, and re-read when the view
+  // moves off them or the source changes.
+  private _intensityField: FieldTexture | null;
+  private _intensitySource: RasterSourceField | null = null;
+  private _intensityCover: TileCover | null = null;
+  private _intensityLoading = false;
+
+  // Wind field, resampled once to a mercator texture.
+  private _windField: WindFieldTexture | null;
+
+  // Terrain heightmap around the view, rebuilt when the view moves off it
+  // or the DEM changes (throttled to TERRAIN_REFRESH_MS), in a task of its
+  // own after the frame.
+  private _terrain: TerrainHeightmap | null = null;
+  private _terrainDirty = false;
+  private _terrainBuiltAt = 0;
+  private _terrainTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Ground cover. The texel size is picked from the zoom when accumulation
+  // starts (0 = pick on the next frame); _accumWindow is the last window
+  // handed to the backend, needed to unwrap read-backs.
+  private _accumulation: Required<AccumulationOptions> | null;
+  private _accumTexelSize = 0;
+  private _accumClear = false;
+  private _accumWindow: AccumulationWindow | null = null;
+
+  // Flake appearance, resolved for the backends; the sprite atlas arrives
+  // asynchronously.
+  private _appearance: FlakeAppearance | null;
+  private _flakeStyle: FlakeStyle;
+  private _sprites: SpriteAtlas | null = null;
+
+  // Lighting (see lighting.ts). Point lights are collected from their
+  // GeoJSON; the glow grid around the view is rebuilt like the terrain.
+  private _color: string;
+  private _lighting: ResolvedLighting | null;
+  private _pointLights: PointLight[] = [];
+  private _glow: GlowGrid | null = null;
+  private _glowHalfSpan = 0;
+
+  // Sizing with distance (see sizing.ts).
+  private _sizeMode: FlakeSizeMode;
+  private _depthOfField: Required<DepthOfFieldOptions> | null;
+
+  // Adaptive quality and reduced motion (see quality.ts)
+  private _governor: QualityGovernor | null;
+  private _reducedMotion: ReducedMotion;
+  private _prefersReducedMotion = false;
+  private _motionQuery: MediaQueryList | null = null;
+
+  // Camera motion and the pointer (see interaction.ts): the view as of the
+  // last frame, to measure how the camera moved, and the pointer's position
+  // in the map container while it is over the map. The pointer option is
+  // kept as given, as its defaults depend on the units.
+  private _cameraMotion: CameraMotionTracker | null;
+  private _lastView: { center: LngLat; bearing: number; zoom: number } | null =
+    null;
+  private _pointer: boolean | PointerOptions;
+  private _pointerPoint: Point | null = null;
 
-  // Frame timing
+  // Animated option changes from transitionTo().
+  private _transition: ActiveTransition | null = null;
+
+  // Fixed-step simulation clock: time owed to the simulation, fed by real
+  // time unless paused and by step(). The layer clock runs alongside it
+  // for transitions and the precipitation fade, so they hold while paused.
   private _lastFrameTime = 0;
-  private _fps = 60;
+  private _simTime = 0;
+  private _clock = 0;
+  private _paused = false;
+  private _seed: number;
+
+  // Weather playback (see playback.ts): the keyframes as given, their
+  // timeline once loaded, and the playback time (ms since the epoch) and
+  // rate relative to real time.
+  private _keyframes: KeyframeSource | null;
+  private _keyframeLoad: AbortController | null = null;
+  private _timeline: WeatherTimeline | null = null;
+  private _playbackTime: number | null = null;
+  private _playbackRate = 0;
+
+  // Video recording from startRecording(), kept after the layer is removed
+  // so stopRecording() can still hand the video over.
+  private _recorder: FrameRecorder | null = null;
 
   constructor(options: MaplibreSnowOptions = {}) {
+    super();
     this.id = options.id ?? 'snow';
-    this._density = options.density ?? 0.5;
-    this._intensity = options.intensity ?? 0.5;
-    this._flakeSize = options.flakeSize ?? 4;
-    this._opacity = options.opacity ?? 0.8;
+    this._density = numberOption(options.density, 0.5);
+    this._intensity = numberOption(options.intensity, 0.5);
+    this._flakeSize = numberOption(options.flakeSize, 4);
+    this._opacity = numberOption(options.opacity, 0.8);
     this._direction = options.direction ?? [0, 50];
-    this._fog = options.fog ?? true;
-    this._fogOpacity = options.fogOpacity ?? 0.08;
+    this._units = options.units ?? 'pixels';
+    this._cloudBase = Math.max(1, options.cloudBase ?? DEFAULT_CLOUD_BASE);
+    this._turbulence = options.turbulence ?? false;
+    this._gusts = resolveGusts(options.gusts);
+    this._fog = resolveFog(options.fog);
+    this._fogOpacity = numberOption(options.fogOpacity, 0.08);
+    this._renderer = options.renderer ?? 'auto';
+    this._compositing = options.compositing ?? 'map';
+    this._precipitation = options.precipitation ?? 'snow';
+    this._precipFrom = PRECIPITATION_PROFILES[this._precipitation];
+    this._bounds = options.bounds ?? null;
+    this._boundsFade = options.boundsFade ?? 0;
+    this._intensityField = null;
+    if (options.intensityField && 'source' in options.intensityField) {
+      this._intensitySource = options.intensityField;
+    } else if (options.intensityField) {
+      this._intensityField = this._resampleIntensity(
+        options.intensityField,
+        (error) => (this._constructorError = error),
+      );
+    }
+    this._windField = options.windField
+      ? resampleWindField(options.windField)
+      : null;
+    this._accumulation = resolveAccumulation(options.accumulation);
+    this._seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+    this._appearance = options.appearance ?? null;
+    this._flakeStyle = resolveAppearance(options.appearance);
+    this._refreshSprites();
+    this._color = options.color ?? '#ffffff';
+    this._lighting = resolveLighting(options.lighting);
+    this._sizeMode = options.sizeMode ?? 'pixels';
+    this._depthOfField = resolveDepthOfField(options.depthOfField);
+    this._governor = createGovernor(options.adaptiveQuality);
+    this._reducedMotion = options.reducedMotion ?? 'reduce';
+    this._cameraMotion = createTracker(options.cameraMotion);
+    this._pointer = options.pointer ?? false;
+    this._keyframes = options.keyframes ?? null;
+    this._refreshKeyframes();
+    for (const key of EXPRESSION_OPTIONS) {
+      const value = options[key];
+      if (value !== undefined && typeof value !== 'number') {
+        this._setExpression(key, value);
+      }
+    }
   }
 
   // -------------------------------------------------------------------------
@@ -523,148 +2263,1619 @@ class MaplibreSnowLayer {
 
   onAdd(
     map: MaplibreMap,
-    _gl: WebGL2RenderingContext | WebGLRenderingContext,
+    gl: WebGL2RenderingContext | WebGLRenderingContext,
   ): void {
     this.map = map;
+    this._failure = null;
+    if (this._constructorError) this._reportError(this._constructorError);
+    this._constructorError = null;
+    map.on('sourcedata', this._onSourceData);
+    map.on('terrain', this._onTerrain);
+    this._bindPointer(map, !!this._pointer);
+    document.addEventListener('visibilitychange', this._onVisibilityChange);
+    this._motionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+    this._motionQuery.addEventListener('change', this._onMotionPreference);
+    this._prefersReducedMotion = this._motionQuery.matches;
+    this._refreshBounds();
+    this._refreshLights();
+
+    if (
+      this._renderer === 'webgl2' ||
+      (this._renderer === 'auto' && !hasWebGPU())
+    ) {
+      this._pendingWebGL = true;
+      return;
+    }
 
-    const container = map.getContainer();
-    container.style.position = 'relative';
-
-    // Overlay div
-    this.overlayDiv = document.createElement('div');
-    Object.assign(this.overlayDiv.style, {
-      position: 'absolute',
-      top: '0',
-      left: '0',
-      width: '100%',
-      height: '100%',
-      pointerEvents: 'none',
-      zIndex: '10',
-    });
-
-    // Overlay canvas
-    this.overlayCanvas = document.createElement('canvas');
-    Object.assign(this.overlayCanvas.style, {
-      width: '100%',
-      height: '100%',
-      display: 'block',
-    });
-
-    this.overlayDiv.appendChild(this.overlayCanvas);
-    container.appendChild(this.overlayDiv);
-
-    // Physical canvas size
-    const dpr = window.devicePixelRatio;
-    this.overlayCanvas.width = container.clientWidth * dpr;
-    this.overlayCanvas.height = container.clientHeight * dpr;
-
-    // Resize observer
-    this.resizeObserver = new ResizeObserver(() => {
-      if (!this.overlayCanvas || !this.map) return;
-      const c = this.map.getContainer();
-      const d = window.devicePixelRatio;
-      this.overlayCanvas.width = c.clientWidth * d;
-      this.overlayCanvas.height = c.clientHeight * d;
-      this.gpu?.resize(c.clientWidth, c.clientHeight);
-    });
-    this.resizeObserver.observe(container);
+    const composite = this._compositing === 'map' && isWebGL2(gl);
+    if (this._compositing === 'map' && !composite) {
+      console.warn(
+        '[maplibre-gl-snow] map compositing needs WebGL2; using an overlay',
+      );
+    }
+    // Offscreen when compositing: the output reaches the page through
+    // MapLibre's canvas.
+    if (composite) this._pendingCompositor = true;
+    const shared = SharedRenderer.acquire(map, composite);
+    this.sharedRenderer = shared;
 
     // Init WebGPU async
-    this.gpu = new SnowGPU();
-    this.gpu.init(this.overlayCanvas).then((ok) => {
-      if (!ok) return;
-      // Apply initial options after init
-      this.gpu!.setDensity(this._density);
-      this.gpu!.setOpacity(this._opacity);
-      this.gpu!.setFog(this._fog);
-      this.gpu!.setFogOpacity(this._fogOpacity);
-    });
+    const gpu = new SnowGPU();
+    this.backend = gpu;
+    gpu.onDeviceLost = (error) => {
+      if (this.backend !== gpu) return;
+      this._emit({ type: 'devicelost', error });
+      this._dropWebGPU(error);
+    };
+    gpu.init(shared).then(
+      () => {
+        // Layer was removed (or re-added) while init was in flight.
+        if (this.backend !== gpu) return;
+        this._applyOptions();
+        this._setReady('webgpu');
+      },
+      (error: SnowLayerError) => {
+        if (this.backend !== gpu) return;
+        if (this._renderer === 'auto' && !error.unsupported) {
+          this._reportError(error);
+        }
+        this._dropWebGPU(error);
+      },
+    );
   }
 
   render(
-    _gl: WebGL2RenderingContext | WebGLRenderingContext,
+    gl: WebGL2RenderingContext | WebGLRenderingContext,
     args: CustomRenderMethodInput,
   ): void {
-    if (!this.gpu?.ready || !this.map) return;
+    if (!this.map) return;
+    if (this._pendingWebGL) this._initWebGL(gl);
+    if (!this.backend?.ready) return;
     const now = performance.now();
-    const dt = now - this._lastFrameTime;
-    if (this._lastFrameTime > 0 && dt > 0) {
-      const instantFps = 1000 / dt;
-      this._fps = this._fps * 0.9 + instantFps * 0.1;
-    }
+    const elapsed = this._lastFrameTime > 0 ? now - this._lastFrameTime : 0;
     this._lastFrameTime = now;
-    const fps = Math.max(10, Math.min(120, this._fps));
+    const motion = motionScale(this._reducedMotion, this._prefersReducedMotion);
+    // Nothing moves in a hidden page.
+    const speed = document.hidden ? 0 : motion.speed;
+    this._updateQuality(elapsed, motion);
+    if (!this._paused) {
+      this._clock += Math.min(elapsed, MAX_STEPS_PER_FRAME * SIM_STEP_MS);
+    }
+    this._stepTransition(this._clock);
     const zoom = this.map.getZoom();
+    const pitch = this.map.getPitch();
+    this._evaluateExpressions(zoom, pitch);
+    this._stepPlayback(elapsed);
     const center = this.map.getCenter();
     const cssW = this.map.getContainer().clientWidth;
     const merc = lngLatToMercator(center.lng, center.lat);
-    this.gpu.updateSpatial(merc.x, merc.y, zoom, cssW);
-    this.gpu.updateFlakeRadiusPx(this._flakeSize);
-    this.gpu.updateWind(this._direction[0], this._direction[1], zoom, fps);
-    this.gpu.updateFallSpeed(this._intensity, zoom, fps);
-    this.gpu.runInit();
-    const cssH = this.map.getContainer().clientHeight;
-    this.gpu.frame(
-      new Float32Array(args.defaultProjectionData.mainMatrix),
+    const mercPerUnit = mercatorPerUnit(this._units, zoom, center.lat);
+    const altSpan = this._altSpan(center.lat);
+    this.backend.updateSpatial(
+      merc.x,
+      merc.y,
+      zoom,
+      cssW,
+      pitch,
+      this.map.getBearing(),
+      altSpan,
+    );
+    this._refreshTerrain(now);
+    this._refreshIntensitySource();
+    this._updateLighting(center.lng, center.lat, zoom, cssW);
+    this._updateFog(args, merc.x, merc.y);
+    this.backend.updateFlakeRadiusPx(this._flakeSize);
+    const profile = this._precipitationProfile(this._clock);
+    this.backend.updatePrecipitation(profile);
+    this.backend.updateWind(
+      this._direction[0],
+      this._direction[1],
+      mercPerUnit,
+      SIM_FPS,
+    );
+    this.backend.updateFallSpeed(
+      this._fallSpeed(profile) * this._intensity,
+      mercPerUnit,
+      SIM_FPS,
+    );
+    this._updateInteraction(elapsed, motion, zoom, mercPerUnit, profile);
+    this._updateAccumulation(
+      profile,
+      merc.x,
+      merc.y,
+      zoom,
       cssW,
-      cssH,
+      mercPerUnit,
+      altSpan,
     );
-    this.map.triggerRepaint();
+    this.backend.runInit();
+    this.backend.simulate(this._takeSteps(elapsed * speed));
+    const cssH = this.map.getContainer().clientHeight;
+    if (this._pendingCompositor) this._initCompositor(gl);
+    const composite =
+      this._compositor && this.backend instanceof SnowGPU
+        ? this.sharedRenderer
+        : null;
+    composite?.setCompositeSize(gl.drawingBufferWidth, gl.drawingBufferHeight);
+    this.backend.frame(snowProjection(this.map, args), cssW, cssH);
+    if (composite) this._compositor!.draw(composite.canvas);
+    // While paused or frozen only pending animations need further frames
+    // (and a paused layer's transitions and fade hold still); a hidden page
+    // needs none until it is shown again.
+    const still = this._paused || speed === 0;
+    const fading =
+      !this._paused &&
+      (this._transition !== null || this._precipFadeStart !== null);
+    if (
+      !document.hidden &&
+      (!still || fading || this.playing || this._cameraMotion?.moving)
+    ) {
+      this.map.triggerRepaint();
+    }
   }
 
   onRemove(
-    _map: MaplibreMap,
+    map: MaplibreMap,
     _gl: WebGL2RenderingContext | WebGLRenderingContext,
   ): void {
-    this.resizeObserver?.disconnect();
-    this.gpu?.dispose();
-
-    if (this.overlayDiv?.parentElement) {
-      this.overlayDiv.parentElement.removeChild(this.overlayDiv);
-    }
+    map.off('sourcedata', this._onSourceData);
+    map.off('terrain', this._onTerrain);
+    if (this._terrainTimer !== null) clearTimeout(this._terrainTimer);
+    this._terrainTimer = null;
+    this._intensityCover = null;
+    this._bindPointer(map, false);
+    this._lastView = null;
+    document.removeEventListener('visibilitychange', this._onVisibilityChange);
+    this._motionQuery?.removeEventListener('change', this._onMotionPreference);
+    this._motionQuery = null;
+    this.cancelTransition();
+    // The snow leaves the map with the layer; end the video there.
+    void this._recorder?.stop().catch(() => {});
+    this._rejectWaiters(
+      new SnowLayerError(
+        'removed',
+        'the layer was removed before it was ready',
+      ),
+    );
+    this.backend?.dispose();
+    this._compositor?.dispose();
+    this._releaseRenderer();
 
     this.map = null;
-    this.overlayDiv = null;
-    this.overlayCanvas = null;
-    this.gpu = null;
+    this.backend = null;
+    this._compositor = null;
+    this._pendingCompositor = false;
+    this._pendingWebGL = false;
+    this._activeRenderer = null;
+    this._failure = null;
   }
 
   // -------------------------------------------------------------------------
-  // Public API
+  // Backend setup
   // -------------------------------------------------------------------------
 
-  setDensity(density: number): void {
-    this._density = density;
-    this.gpu?.setDensity(density);
+  private _releaseRenderer(): void {
+    this.sharedRenderer?.setResolutionScale(this, null);
+    this.sharedRenderer?.release();
+    this.sharedRenderer = null;
   }
 
-  setIntensity(intensity: number): void {
-    this._intensity = Math.max(0, Math.min(1, intensity));
+  // Stop the WebGPU backend after a failed init or a lost device; with
+  // renderer 'auto' the WebGL2 backend starts on the next frame.
+  private _dropWebGPU(error: SnowLayerError): void {
+    this.backend?.dispose();
+    this._compositor?.dispose();
+    this._releaseRenderer();
+    this.backend = null;
+    this._compositor = null;
+    this._pendingCompositor = false;
+    this._activeRenderer = null;
+    if (this._renderer !== 'auto') {
+      this._fail(error);
+      return;
+    }
+    this._pendingWebGL = true;
+    this.map?.triggerRepaint();
   }
 
-  setFlakeSize(size: number): void {
-    this._flakeSize = size;
-    this.gpu?.updateFlakeRadiusPx(size);
+  private _initWebGL(gl: WebGL2RenderingContext | WebGLRenderingContext): void {
+    this._pendingWebGL = false;
+    if (!isWebGL2(gl)) {
+      this._fail(
+        new SnowLayerError(
+          'webgl2-unsupported',
+          'WebGL2 is not supported by the map',
+        ),
+      );
+      return;
+    }
+    const snowGL = new SnowGL();
+    try {
+      snowGL.init(gl);
+    } catch (err) {
+      this._fail(err as SnowLayerError);
+      return;
+    }
+    this.backend = snowGL;
+    this._applyOptions();
+    this._setReady('webgl2');
   }
 
-  setOpacity(opacity: number): void {
-    this._opacity = opacity;
-    this.gpu?.setOpacity(opacity);
+  private _initCompositor(
+    gl: WebGL2RenderingContext | WebGLRenderingContext,
+  ): void {
+    this._pendingCompositor = false;
+    if (!isWebGL2(gl)) return;
+    const compositor = new MapCompositor();
+    try {
+      compositor.init(gl);
+      this._compositor = compositor;
+    } catch (err) {
+      // The particles still simulate; they just cannot reach the map.
+      this._reportError(err as SnowLayerError);
+    }
   }
 
-  setDirection(direction: [number, number]): void {
-    this._direction = direction;
+  // -------------------------------------------------------------------------
+  // Events
+  // -------------------------------------------------------------------------
+
+  // Fire on the layer, then on the map as `snow.<type>` with the layer ID.
+  private _emit(event: SnowLayerEvent): void {
+    this._fire(event);
+    const { type, ...data } = event;
+    this.map?.fire(`snow.${type}`, { ...data, layerId: this.id });
   }
 
-  setFog(enabled: boolean): void {
-    this._fog = enabled;
-    this.gpu?.setFog(enabled);
+  private _reportError(error: SnowLayerError): void {
+    this._emit({ type: 'error', error });
+    // Same shape as MapLibre's own layer errors; logged if nobody listens.
+    this.map?.fire('error', { error, layerId: this.id });
   }
 
-  setFogOpacity(opacity: number): void {
-    this._fogOpacity = opacity;
-    this.gpu?.setFogOpacity(opacity);
+  // Resample an intensity field, or hand `report` the reason it can't be read.
+  private _resampleIntensity(
+    field: GridField | ImageField,
+    report: (error: SnowLayerError) => void,
+  ): FieldTexture | null {
+    try {
+      return resampleScalarField(field);
+    } catch (err) {
+      report(
+        new SnowLayerError(
+          'intensity-field',
+          'failed to read the intensity field',
+          err,
+        ),
+      );
+      return null;
+    }
+  }
+
+  private _setReady(renderer: 'webgpu' | 'webgl2'): void {
+    this._activeRenderer = renderer;
+    this._failure = null;
+    for (const waiter of this._readyWaiters.splice(0)) waiter.resolve();
+    this._emit({ type: 'ready', renderer });
+  }
+
+  // No backend will draw: reject whenReady() and say why.
+  private _fail(error: SnowLayerError): void {
+    this._failure = error;
+    this._rejectWaiters(error);
+    if (error.unsupported) {
+      console.warn(`[maplibre-gl-snow] ${error.message}`);
+      this._emit({ type: 'unsupported', error });
+    } else {
+      this._reportError(error);
+    }
+  }
+
+  private _rejectWaiters(error: SnowLayerError): void {
+    for (const waiter of this._readyWaiters.splice(0)) waiter.reject(error);
+  }
+
+  private _optionsChanged(options: SnowOptionsChange): void {
+    this._emit({ type: 'optionschange', options });
+  }
+
+  // Current precipitation profile, blended while a type switch is fading in.
+  private _precipitationProfile(clock: number): PrecipitationProfile {
+    const target = PRECIPITATION_PROFILES[this._precipitation];
+    if (this._precipFadeStart === null) return target;
+    const t = Math.min(
+      1,
+      (clock - this._precipFadeStart) / PRECIPITATION_FADE_MS,
+    );
+    if (t >= 1) {
+      this._precipFadeStart = null;
+      return target;
+    }
+    // Eased so the fade starts and ends gently.
+    return mixPrecipitation(this._precipFrom, target, easeInOut(t));
+  }
+
+  // Whole simulation steps to run this frame.
+  private _takeSteps(elapsed: number): number {
+    if (!this._paused) {
+      this._simTime += Math.min(elapsed, MAX_STEPS_PER_FRAME * SIM_STEP_MS);
+    }
+    // The epsilon keeps exact multiples of SIM_STEP_MS from losing a step.
+    const steps = Math.floor(this._simTime / SIM_STEP_MS + 1e-6);
+    this._simTime = Math.max(0, this._simTime - steps * SIM_STEP_MS);
+    return steps;
+  }
+
+  private _updateAccumulation(
+    profile: PrecipitationProfile,
+    mercX: number,
+    mercY: number,
+    zoom: number,
+    cssW: number,
+    mercPerUnit: number,
+    altSpan: number | null,
+  ): void {
+    const options = this._accumulation;
+    if (!options) {
+      this._accumWindow = null;
+      this.backend?.updateAccumulation(null);
+      return;
+    }
+    const halfSpan = viewHalfSpan(zoom, cssW);
+    if (this._accumTexelSize === 0) {
+      this._accumTexelSize = accumulationTexelSize(halfSpan);
+    }
+    const texelSize = this._accumTexelSize;
+    const window = accumulationWindow(texelSize, mercX, mercY);
+    // Reference fall: this type at the default intensity, mean jitter.
+    const referenceFall =
+      (this._fallSpeed(profile) *
+        0.5 *
+        (1 - profile.speedJitter / 2) *
+        mercPerUnit) /
+      SIM_FPS;
+    this.backend?.updateAccumulation({
+      window,
+      perHit:
+        coveragePerHit(
+          options.buildRate,
+          SIM_FPS,
+          halfSpan,
+          altSpan ?? halfSpan * 0.5,
+          texelSize,
+          referenceFall,
+        ) * profile.settle,
+      melt: options.meltRate / SIM_FPS,
+      maxCoverage: options.maxCoverage,
+      clear: this._accumClear,
+    });
+    this._accumClear = false;
+    this._accumWindow = window;
+  }
+
+  // Push the stored options into a freshly initialised backend.
+  private _applyOptions(): void {
+    if (!this.backend) return;
+    this.backend.setSeed(this._seed);
+    this.backend.setDensity(this._density);
+    this.backend.setOpacity(this._opacity);
+    this.backend.setColor(...(parseColor(this._color) ?? [1, 1, 1]));
+    this.backend.setAppearance(this._flakeStyle);
+    this.backend.setSprites(this._sprites);
+    this.backend.setSizeMode(this._sizeMode);
+    this.backend.setDepthOfField(this._depthOfField);
+    this.backend.setFogOpacity(this._fogOpacity);
+    this.backend.setBoundsMask(this._boundsMask);
+    this.backend.setIntensityField(this._intensityField);
+    this.backend.setWindField(this._windField);
+    this.backend.setTurbulence(
+      resolveTurbulence(this._turbulence, this._units),
+    );
+    this.backend.setGusts(this._gusts);
+    this.backend.setTerrain(this._terrain);
+    this.backend.setGlow(this._glow);
+  }
+
+  // -------------------------------------------------------------------------
+  // Transitions
+  // -------------------------------------------------------------------------
+
+  // Apply the running transition's values for this frame.
+  private _stepTransition(clock: number): void {
+    const active = this._transition;
+    if (!active) return;
+    const t =
+      active.duration > 0
+        ? Math.min(1, Math.max(0, (clock - active.start) / active.duration))
+        : 1;
+    this._applyValues(
+      mixTransitionValues(active.from, active.to, active.easing(t)),
+    );
+    if (t >= 1) this._endTransition(true);
+  }
+
+  private _endTransition(completed: boolean): void {
+    const active = this._transition;
+    if (!active) return;
+    this._transition = null;
+    active.signal?.removeEventListener('abort', active.onAbort);
+    // Report where the animated options ended up (t = 0: current values).
+    if (Object.keys(active.to).length > 0) {
+      this._optionsChanged(
+        mixTransitionValues(this._transitionValues(), active.to, 0),
+      );
+    }
+    active.resolve(completed);
+  }
+
+  private _transitionValues(): Required<TransitionValues> {
+    return {
+      density: this._density,
+      intensity: this._intensity,
+      flakeSize: this._flakeSize,
+      opacity: this._opacity,
+      direction: this._direction,
+      fogOpacity: this._fogOpacity,
+    };
+  }
+
+  // Same effect as the setters, without stopping the transition.
+  private _applyValues(values: TransitionValues): void {
+    if (values.density !== undefined) {
+      this._density = values.density;
+      this.backend?.setDensity(values.density);
+    }
+    if (values.intensity !== undefined) {
+      this._intensity = Math.max(0, Math.min(1, values.intensity));
+    }
+    if (values.flakeSize !== undefined) {
+      this._flakeSize = values.flakeSize;
+      this.backend?.updateFlakeRadiusPx(values.flakeSize);
+    }
+    if (values.opacity !== undefined) {
+      this._opacity = values.opacity;
+      this.backend?.setOpacity(values.opacity);
+    }
+    if (values.direction !== undefined) this._direction = values.direction;
+    if (values.fogOpacity !== undefined) {
+      this._fogOpacity = values.fogOpacity;
+      this.backend?.setFogOpacity(values.fogOpacity);
+    }
+  }
+
+  // A setter call takes its option out of the running transition.
+  private _releaseTransition(key: keyof TransitionValues): void {
+    if (this._transition) delete this._transition.to[key];
+  }
+
+  // -------------------------------------------------------------------------
+  // Playback
+  // -------------------------------------------------------------------------
+
+  // Load the keyframes, if any; the options keep their values until then.
+  private _refreshKeyframes(): void {
+    this._keyframeLoad?.abort();
+    this._keyframeLoad = null;
+    this._timeline = null;
+    const source = this._keyframes;
+    if (!source) return;
+    const controller = new AbortController();
+    this._keyframeLoad = controller;
+    loadKeyframes(source, controller.signal)
+      .then((keyframes) => {
+        if (controller.signal.aborted) return;
+        this._keyframeLoad = null;
+        this._setTimeline(buildTimeline(keyframes));
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        this._keyframeLoad = null;
+        this._reportError(
+          new SnowLayerError(
+            'keyframes-load',
+            'failed to load the weather keyframes',
+            err,
+          ),
+        );
+      });
+  }
+
+  private _setTimeline(timeline: WeatherTimeline | null): void {
+    this._timeline = timeline;
+    if (!timeline) return;
+    // Options the keyframes set stop following their expressions.
+    const keys = timelineKeys(timeline);
+    for (const key of EXPRESSION_OPTIONS) {
+      if (keys.includes(key)) delete this._expressions[key];
+    }
+    // Start at the first keyframe, or as near as it gets to a time set
+    // while they were loading.
+    this._playbackTime = this._clampTime(
+      this._playbackTime ?? timeline.times[0]!,
+    );
+    this._applyPlayback();
+    this.map?.triggerRepaint();
+  }
+
+  private _clampTime(time: number): number {
+    const times = this._timeline?.times;
+    if (!times) return time;
+    return Math.min(times[times.length - 1]!, Math.max(times[0]!, time));
+  }
+
+  // Advance the playback time by a frame's real time; it stops at the
+  // first or last keyframe.
+  private _stepPlayback(elapsed: number): void {
+    if (!this.playing || this._playbackTime === null) return;
+    const advanced = this._playbackTime + elapsed * this._playbackRate;
+    this._playbackTime = this._clampTime(advanced);
+    if (this._playbackTime !== advanced) this._playbackRate = 0;
+    this._applyPlayback();
+  }
+
+  // The keyframes' values at the playback time, with the setters' effect.
+  private _applyPlayback(): void {
+    const timeline = this._timeline;
+    if (!timeline || this._playbackTime === null) return;
+    this._applyValues(sampleTimeline(timeline, this._playbackTime));
+    this._emitTime();
+  }
+
+  private _emitTime(): void {
+    if (this._playbackTime === null) return;
+    this._emit({
+      type: 'timeupdate',
+      time: new Date(this._playbackTime),
+      playing: this.playing,
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Quality
+  // -------------------------------------------------------------------------
+
+  // Particle share and render resolution for this frame, from the governor
+  // and the reduced-motion preference.
+  private _updateQuality(elapsed: number, motion: MotionScale): void {
+    const governor = this._governor;
+    governor?.update(elapsed);
+    this.backend?.setParticleScale(
+      (governor?.particleScale ?? 1) * motion.particles,
+    );
+    this.sharedRenderer?.setResolutionScale(
+      this,
+      governor?.resolutionScale ?? null,
+    );
+  }
+
+  // Restart the frame loop when the page is shown again, without catching
+  // up on the hidden time.
+  private _onVisibilityChange = (): void => {
+    if (document.hidden) return;
+    this._lastFrameTime = 0;
+    this.map?.triggerRepaint();
+  };
+
+  private _onMotionPreference = (e: MediaQueryListEvent): void => {
+    this._prefersReducedMotion = e.matches;
+    this.map?.triggerRepaint();
+  };
+
+  // -------------------------------------------------------------------------
+  // Interaction
+  // -------------------------------------------------------------------------
+
+  // Measure how the camera moved since the last frame, and place the pointer
+  // on the ground. Streaks are left out when the user prefers reduced motion.
+  private _updateInteraction(
+    elapsed: number,
+    motion: MotionScale,
+    zoom: number,
+    mercPerUnit: number,
+    profile: PrecipitationProfile,
+  ): void {
+    const map = this.map!;
+    const backend = this.backend!;
+    const tracker = this._cameraMotion;
+    if (tracker) {
+      const center = map.getCenter();
+      const bearing = map.getBearing();
+      const last = this._lastView;
+      if (last) {
+        // Where the ground under the old centre went, y up.
+        const from = map.project(center);
+        const to = map.project(last.center);
+        tracker.update(
+          elapsed,
+          to.x - from.x,
+          from.y - to.y,
+          bearing - last.bearing,
+          zoom - last.zoom,
+        );
+      }
+      this._lastView = { center, bearing, zoom };
+    }
+    backend.updateCameraMotion(
+      motion.speed === 1 ? (tracker?.motion() ?? null) : null,
+    );
+    const pointer = resolvePointer(this._pointer, this._units);
+    const point = this._pointerPoint;
+    if (!pointer || !point) {
+      backend.updatePointer(null);
+      return;
+    }
+    const ground = map.unproject(point);
+    const merc = lngLatToMercator(ground.lng, ground.lat);
+    backend.updatePointer(
+      pointerFrame(
+        pointer,
+        merc.x,
+        merc.y,
+        mercatorPerUnit('pixels', zoom, 0),
+        (mercPerUnit / SIM_FPS) * profile.windFactor,
+      ),
+    );
+  }
+
+  // Follow the pointer only while the force field is on.
+  private _bindPointer(map: MaplibreMap, listen: boolean): void {
+    map.off('mousemove', this._onPointerMove);
+    map.off('touchmove', this._onPointerMove);
+    map.off('mouseout', this._onPointerLeave);
+    map.off('touchend', this._onPointerLeave);
+    if (!listen) {
+      this._pointerPoint = null;
+      return;
+    }
+    map.on('mousemove', this._onPointerMove);
+    map.on('touchmove', this._onPointerMove);
+    map.on('mouseout', this._onPointerLeave);
+    map.on('touchend', this._onPointerLeave);
+  }
+
+  private _onPointerMove = (e: MapMouseEvent | MapTouchEvent): void => {
+    this._pointerPoint = e.point;
+  };
+
+  private _onPointerLeave = (): void => {
+    this._pointerPoint = null;
+  };
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  // Apply this frame's values of the options given as expressions.
+  private _evaluateExpressions(zoom: number, pitch: number): void {
+    const current = this._transitionValues();
+    const values: TransitionValues = {};
+    for (const key of EXPRESSION_OPTIONS) {
+      const expression = this._expressions[key];
+      if (!expression) continue;
+      const value = evaluateOptionExpression(expression, zoom, pitch);
+      if (value !== current[key]) values[key] = value;
+    }
+    this._applyValues(values);
+  }
+
+  // Follow an expression from the next frame on, falling back to the
+  // option's current value where it fails. Invalid ones are ignored.
+  private _setExpression(
+    key: ExpressionOption,
+    value: ExpressionSpecification,
+  ): boolean {
+    try {
+      this._expressions[key] = parseOptionExpression(
+        value,
+        this._transitionValues()[key],
+      );
+    } catch (err) {
+      console.warn(
+        `[maplibre-gl-snow] invalid ${key} expression: ${(err as Error).message}`,
+      );
+      return false;
+    }
+    this.map?.triggerRepaint();
+    return true;
+  }
+
+  private _setNumberOption(
+    key: ExpressionOption,
+    value: NumberOrExpression,
+  ): void {
+    if (typeof value === 'number') {
+      delete this._expressions[key];
+      this._applyValues({ [key]: value });
+    } else if (!this._setExpression(key, value)) {
+      return;
+    }
+    this._releaseTransition(key);
+    this._optionsChanged({ [key]: value });
+  }
+
+  // -------------------------------------------------------------------------
+  // Bounds
+  // -------------------------------------------------------------------------
+
+  // Re-read source-backed bounds, lights and intensity whenever that
+  // source's data changes, and re-sample the terrain when DEM tiles arrive.
+  private _onSourceData = (e: MapSourceDataEvent): void => {
+    if (e.tile && e.sourceId === this.map?.getTerrain()?.source) {
+      this._terrainDirty = true;
+    }
+    const changed =
+      !e.tile &&
+      (e.sourceDataType === 'metadata' || e.sourceDataType === 'content');
+    if (changed && e.sourceId === this._bounds) this._refreshBounds();
+    if (changed && e.sourceId === this._lighting?.lights) {
+      this._refreshLights();
+    }
+    if (changed && e.sourceId === this._intensitySource?.source) {
+      this._intensityCover = null;
+    }
+  };
+
+  private _refreshBounds(): void {
+    const bounds = this._bounds;
+    if (bounds === null) {
+      this._setBoundsMask(null);
+      return;
+    }
+    if (typeof bounds !== 'string') {
+      this._setBoundsMask(rasterizeBounds(bounds, this._boundsFade));
+      return;
+    }
+    // Show nothing until the source's data has been read.
+    if (!this._boundsMask) {
+      this._setBoundsMask(
+        rasterizeBounds({ type: 'FeatureCollection', features: [] }),
+      );
+    }
+    const source = this.map?.getSource(bounds);
+    if (!source) return;
+    readGeoJSONSource(source, 'bounds')
+      .then((data) => {
+        if (this._bounds !== bounds || !data) return;
+        this._setBoundsMask(rasterizeBounds(data, this._boundsFade));
+      })
+      .catch((err) => {
+        this._reportError(
+          new SnowLayerError(
+            'bounds-source',
+            `failed to read bounds source '${bounds}'`,
+            err,
+          ),
+        );
+      });
+  }
+
+  private _setBoundsMask(mask: BoundsMask | null): void {
+    this._boundsMask = mask;
+    this.backend?.setBoundsMask(mask);
+  }
+
+  // -------------------------------------------------------------------------
+  // Intensity field
+  // -------------------------------------------------------------------------
+
+  private _setIntensityField(field: FieldTexture | null): void {
+    this._intensityField = field;
+    this.backend?.setIntensityField(field);
+  }
+
+  // Read the raster source's tiles around the view when the view moved off
+  // the ones read last, or the source changed. One read runs at a time; the
+  // previous field shows until it finishes.
+  private _refreshIntensitySource(): void {
+    const field = this._intensitySource;
+    const map = this.map;
+    if (!field || !map || this._intensityLoading) return;
+    const source = map.getSource(field.source) as unknown as
+      | RasterSourceTiles
+      | undefined;
+    // Not added yet, or its TileJSON is still loading.
+    if (!source || (source.type === 'raster' && !source.tiles)) return;
+    const cover = rasterTileCover(
+      this._viewFootprint(map),
+      source.minzoom,
+      source.maxzoom,
+    );
+    const current = this._intensityCover;
+    if (current && tileCoverContains(current, cover)) return;
+    // Set before reading, so a failed read is not retried every frame.
+    this._intensityCover = cover;
+    this._intensityLoading = true;
+    const tiles = source.tiles ?? [];
+    const read =
+      source.type === 'raster'
+        ? readRasterTiles(
+            cover,
+            (z, x, y) =>
+              fetchRasterTile(
+                map,
+                tileURL(
+                  tiles,
+                  z,
+                  x,
+                  y,
+                  source.scheme ?? 'xyz',
+                  map.getPixelRatio(),
+                ),
+              ),
+            field.channel,
+          )
+        : Promise.reject(new Error('the source must be a raster source'));
+    read
+      .then((texture) => {
+        if (this._intensitySource !== field) return;
+        this._setIntensityField(texture);
+        map.triggerRepaint();
+      })
+      .catch((err) => {
+        if (this._intensitySource !== field) return;
+        this._reportError(
+          new SnowLayerError(
+            'intensity-field',
+            `failed to read intensity source '${field.source}'`,
+            err,
+          ),
+        );
+      })
+      .finally(() => {
+        this._intensityLoading = false;
+      });
+  }
+
+  // -------------------------------------------------------------------------
+  // Appearance
+  // -------------------------------------------------------------------------
+
+  // Load the sprite atlas, if any; the shapes show until it arrives.
+  private _refreshSprites(): void {
+    const sprites = this._appearance?.sprites;
+    this._setSprites(null);
+    if (!sprites) return;
+    loadSprites(sprites)
+      .then((atlas) => {
+        if (this._appearance?.sprites !== sprites) {
+          atlas.image.close();
+          return;
+        }
+        this._setSprites(atlas);
+      })
+      .catch((err) => {
+        if (this._appearance?.sprites !== sprites) return;
+        this._reportError(
+          new SnowLayerError(
+            'sprite-load',
+            'failed to load the flake sprite atlas',
+            err,
+          ),
+        );
+      });
+  }
+
+  private _setSprites(atlas: SpriteAtlas | null): void {
+    this._sprites?.image.close();
+    this._sprites = atlas;
+    this.backend?.setSprites(atlas);
+  }
+
+  // -------------------------------------------------------------------------
+  // Lighting
+  // -------------------------------------------------------------------------
+
+  // Sunlight tint for this frame, and the glow grid when the view has moved
+  // off it.
+  private _updateLighting(
+    lng: number,
+    lat: number,
+    zoom: number,
+    cssW: number,
+  ): void {
+    const lighting = this._lighting;
+    this.backend?.updateLight(
+      lighting ? this._sunlight(lighting.sun, lng, lat) : [1, 1, 1],
+    );
+    if (!lighting || this._pointLights.length === 0) {
+      if (this._glow) this._setGlow(null);
+      return;
+    }
+    const { x, y } = lngLatToMercator(lng, lat);
+    const halfSpan = viewHalfSpan(zoom, cssW);
+    const current = this._glow;
+    const stale =
+      !current ||
+      Math.abs(x - (current.minX + current.size / 2)) > halfSpan * 0.25 ||
+      Math.abs(y - (current.minY + current.size / 2)) > halfSpan * 0.25 ||
+      Math.abs(halfSpan / this._glowHalfSpan - 1) > 0.25;
+    if (!stale) return;
+    this._glowHalfSpan = halfSpan;
+    this._setGlow(buildGlowGrid(this._pointLights, x, y, halfSpan));
+  }
+
+  // Light color from the sun: the style's light (its color, intensity and
+  // height), or the daylight color for a date or explicit position.
+  private _sunlight(
+    sun: ResolvedLighting['sun'],
+    lng: number,
+    lat: number,
+  ): [number, number, number] {
+    if (sun !== 'style') {
+      const position: SunPosition =
+        sun instanceof Date ? sunPosition(sun, lng, lat) : sun;
+      return daylightColor(position.altitude);
+    }
+    const light = this.map?.style?.light?.properties;
+    if (!light) return [1, 1, 1];
+    const { x, y, z } = light.get('position');
+    const day = daylightColor(
+      (Math.atan2(z, Math.hypot(x, y)) * 180) / Math.PI,
+    );
+    // Intensity 0.5 (the style default) leaves the color as it is.
+    const scale = 0.5 + light.get('intensity');
+    const [r, g, b] = styleColorRGB(light.get('color'));
+    return [r * day[0] * scale, g * day[1] * scale, b * day[2] * scale];
+  }
+
+  private _refreshLights(): void {
+    const lights = this._lighting?.lights ?? null;
+    if (lights === null || !this._lighting) {
+      this._setPointLights([]);
+      return;
+    }
+    if (typeof lights !== 'string') {
+      this._setPointLights(this._collectLights(lights));
+      return;
+    }
+    const source = this.map?.getSource(lights);
+    if (!source) return;
+    readGeoJSONSource(source, 'lights')
+      .then((data) => {
+        if (this._lighting?.lights !== lights || !data) return;
+        this._setPointLights(this._collectLights(data));
+      })
+      .catch((err) => {
+        this._reportError(
+          new SnowLayerError(
+            'lights-source',
+            `failed to read lights source '${lights}'`,
+            err,
+          ),
+        );
+      });
+  }
+
+  private _collectLights(data: GeoJSON): PointLight[] {
+    const map = this.map;
+    return collectLights(data, this._lighting!, (lng, lat) =>
+      map?.getTerrain() ? map.queryTerrainElevation([lng, lat]) : null,
+    );
+  }
+
+  // New lights rebuild the glow grid on the next frame.
+  private _setPointLights(lights: PointLight[]): void {
+    this._pointLights = lights;
+    this._setGlow(null);
+  }
+
+  private _setGlow(grid: GlowGrid | null): void {
+    this._glow = grid;
+    this.backend?.setGlow(grid);
+  }
+
+  // -------------------------------------------------------------------------
+  // Units
+  // -------------------------------------------------------------------------
+
+  // Height of the particle volume at a latitude in mercator units: the
+  // cloud base with metric units, else null to follow the view.
+  private _altSpan(lat: number): number | null {
+    return this._units === 'metric'
+      ? this._cloudBase * mercatorPerMeter(lat)
+      : null;
+  }
+
+  // A profile's fall speed at intensity 1, in the layer's units.
+  private _fallSpeed(profile: PrecipitationProfile): number {
+    return this._units === 'metric'
+      ? profile.metricFallSpeed
+      : profile.fallSpeed;
+  }
+
+  // -------------------------------------------------------------------------
+  // Capture
+  // -------------------------------------------------------------------------
+
+  // The WebGPU overlay canvas, when the snow is drawn over the map rather
+  // than into it.
+  private _overlayCanvas = (): HTMLCanvasElement | null => {
+    const shared = this.sharedRenderer;
+    return shared && !shared.composite ? shared.canvas : null;
+  };
+
+  // -------------------------------------------------------------------------
+  // Fog
+  // -------------------------------------------------------------------------
+
+  private _updateFog(
+    args: CustomRenderMethodInput,
+    mercX: number,
+    mercY: number,
+  ): void {
+    const fog = this._fog;
+    this.backend?.updateFog(
+      fog &&
+        fogFrame(
+          fog,
+          args.defaultProjectionData.fallbackMatrix,
+          mercX,
+          mercY,
+          fog.followStyle ? this._styleFog() : null,
+        ),
+    );
+  }
+
+  // The style's sky fog, when the style sets a sky.
+  private _styleFog(): StyleFog | null {
+    const style = this.map?.style;
+    if (!style?.sky || !style.getSky()) return null;
+    const sky = style.sky.properties;
+    return {
+      color: styleColorRGB(sky.get('fog-color')),
+      groundBlend: sky.get('fog-ground-blend'),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Terrain
+  // -------------------------------------------------------------------------
+
+  private _onTerrain = (): void => {
+    this._terrainDirty = true;
+  };
+
+  // Schedule a re-sample when the volume leaves the heightmap or DEM tiles
+  // arrived. The elevation queries are too slow for render(), so they run
+  // in a task after the frame.
+  private _refreshTerrain(now: number): void {
+    const map = this.map;
+    if (!map?.getTerrain()) {
+      if (this._terrain) this._setTerrain(null);
+      return;
+    }
+    if (this._terrainTimer !== null) return;
+    const current = this._terrain;
+    const stale =
+      !current ||
+      !terrainCovers(current, this._viewFootprint(map)) ||
+      (this._terrainDirty && now - this._terrainBuiltAt > TERRAIN_REFRESH_MS);
+    if (stale) this._terrainTimer = setTimeout(this._buildTerrain, 0);
+  }
+
+  private _buildTerrain = (): void => {
+    this._terrainTimer = null;
+    const map = this.map;
+    if (!map?.getTerrain()) return;
+    this._terrainDirty = false;
+    this._terrainBuiltAt = performance.now();
+    this._setTerrain(
+      buildTerrainHeightmap(
+        (lng, lat) => map.queryTerrainElevation([lng, lat]),
+        this._viewFootprint(map),
+      ),
+    );
+    map.triggerRepaint();
+  };
+
+  // The particle volume's footprint for the map's current view, before the
+  // bounds clip it.
+  private _viewFootprint(map: MaplibreMap): SpawnRect {
+    const center = map.getCenter();
+    const merc = lngLatToMercator(center.lng, center.lat);
+    return spawnRect(
+      merc.x,
+      merc.y,
+      viewHalfSpan(map.getZoom(), map.getContainer().clientWidth),
+      map.getPitch(),
+      map.getBearing(),
+      null,
+    );
+  }
+
+  private _setTerrain(heightmap: TerrainHeightmap | null): void {
+    this._terrain = heightmap;
+    this.backend?.setTerrain(heightmap);
+  }
+
+  // -------------------------------------------------------------------------
+  // Public API
+  // -------------------------------------------------------------------------
+
+  /** Backend actually drawing the particles, or null until one is ready. */
+  get activeRenderer(): 'webgpu' | 'webgl2' | null {
+    return this._activeRenderer;
+  }
+
+  /**
+   * Resolves once a backend is drawing. Rejects with a SnowLayerError when
+   * none can run here, or when the layer is removed before that.
+   */
+  whenReady(): Promise<void> {
+    if (this._activeRenderer) return Promise.resolve();
+    if (this._failure) return Promise.reject(this._failure);
+    return new Promise((resolve, reject) => {
+      this._readyWaiters.push({ resolve, reject });
+    });
+  }
+
+  setDensity(density: NumberOrExpression): void {
+    this._setNumberOption('density', density);
+  }
+
+  setIntensity(intensity: NumberOrExpression): void {
+    this._setNumberOption('intensity', intensity);
+  }
+
+  setFlakeSize(size: NumberOrExpression): void {
+    this._setNumberOption('flakeSize', size);
+  }
+
+  setOpacity(opacity: NumberOrExpression): void {
+    this._setNumberOption('opacity', opacity);
+  }
+
+  setDirection(direction: [number, number]): void {
+    this._releaseTransition('direction');
+    this._applyValues({ direction });
+    this._optionsChanged({ direction });
+  }
+
+  /**
+   * Give speeds (wind, fall, turbulence) in screen px/s or in m/s. The
+   * numbers given are kept, so set `direction` to match.
+   */
+  setUnits(units: SnowUnits): void {
+    this._units = units;
+    this.backend?.setTurbulence(resolveTurbulence(this._turbulence, units));
+    this._optionsChanged({ units });
+  }
+
+  /** Top of the particle volume with metric units, meters above ground. */
+  setCloudBase(meters: number): void {
+    this._cloudBase = Math.max(1, meters);
+    this._optionsChanged({ cloudBase: meters });
+  }
+
+  /** Turn turbulence on (optionally with a new strength and scale) or off. */
+  setTurbulence(turbulence: boolean | TurbulenceOptions): void {
+    this._turbulence = turbulence;
+    this.backend?.setTurbulence(resolveTurbulence(turbulence, this._units));
+    this._optionsChanged({ turbulence });
+  }
+
+  /** Turn gusts on (optionally with a new frequency and amplitude) or off. */
+  setGusts(gusts: boolean | GustOptions): void {
+    this._gusts = resolveGusts(gusts);
+    this.backend?.setGusts(this._gusts);
+    this._optionsChanged({ gusts });
+  }
+
+  /** Turn the fog on or off, or set its color, distances and height falloff. */
+  setFog(fog: boolean | FogOptions): void {
+    this._fog = resolveFog(fog);
+    this._optionsChanged({ fog });
+  }
+
+  setFogOpacity(opacity: NumberOrExpression): void {
+    this._setNumberOption('fogOpacity', opacity);
+  }
+
+  /**
+   * Animate numeric options to new values. Wind blends through the shortest
+   * angle and density changes fade particles in or out. Starting another
+   * transition cancels this one; a setter call stops animating its option.
+   * Resolves true when the transition ends, false when it is cancelled.
+   */
+  transitionTo(
+    values: TransitionValues,
+    options: TransitionOptions = {},
+  ): Promise<boolean> {
+    this.cancelTransition();
+    // Animated options stop following their expressions.
+    for (const key of EXPRESSION_OPTIONS) {
+      if (values[key] !== undefined) delete this._expressions[key];
+    }
+    const {
+      duration = DEFAULT_TRANSITION_MS,
+      easing = easeInOut,
+      signal,
+    } = options;
+    if (signal?.aborted) return Promise.resolve(false);
+    // Nothing renders without a map: jump straight to the targets.
+    if (!this.map || duration <= 0) {
+      this._applyValues(values);
+      this._optionsChanged(values);
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        if (this._transition === active) this._endTransition(false);
+      };
+      const active: ActiveTransition = {
+        from: this._transitionValues(),
+        to: { ...values },
+        start: this._clock,
+        duration,
+        easing,
+        resolve,
+        signal,
+        onAbort,
+      };
+      signal?.addEventListener('abort', onAbort);
+      this._transition = active;
+      this.map?.triggerRepaint();
+    });
+  }
+
+  /** Stop the running transition where it is; its promise resolves false. */
+  cancelTransition(): void {
+    this._endTransition(false);
+  }
+
+  /** Whether the simulation is paused. */
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Freeze the particles, the weather playback, transitions and the
+   * precipitation fade; the map still draws the flakes where they are.
+   */
+  pause(): void {
+    const playing = this.playing;
+    this._paused = true;
+    if (playing) this._emitTime();
+  }
+
+  /** Continue after pause(), without catching up on the paused time. */
+  resume(): void {
+    if (!this._paused) return;
+    this._paused = false;
+    this._lastFrameTime = 0;
+    if (this.playing) this._emitTime();
+    this.map?.triggerRepaint();
+  }
+
+  /**
+   * Advance the simulation by `ms` on the next frame, paused or not, with
+   * any transition or precipitation fade. The simulation runs in whole fixed
+   * steps (1/60 s); a remainder carries over to later calls.
+   */
+  step(ms: number): void {
+    this._simTime += Math.max(0, ms);
+    this._clock += Math.max(0, ms);
+    this.map?.triggerRepaint();
+  }
+
+  /** Weather playback time, or null before keyframes load or a time is set. */
+  get time(): Date | null {
+    return this._playbackTime === null ? null : new Date(this._playbackTime);
+  }
+
+  /** Times of the first and last keyframe, or null until they load. */
+  get timeRange(): [Date, Date] | null {
+    const times = this._timeline?.times;
+    if (!times) return null;
+    return [new Date(times[0]!), new Date(times[times.length - 1]!)];
+  }
+
+  /** Whether the weather playback time is advancing. */
+  get playing(): boolean {
+    return !this._paused && this._playbackRate !== 0 && !!this._timeline;
+  }
+
+  /**
+   * Weather keyframes for setTime() and play(): an array, the URL of a JSON
+   * array, or a provider that loads them. null removes them; the options
+   * keep the values they had.
+   */
+  setKeyframes(keyframes: KeyframeSource | null): void {
+    const playing = this.playing;
+    this._keyframes = keyframes;
+    this._refreshKeyframes();
+    if (playing) this._emitTime();
+    this._optionsChanged({ keyframes });
+  }
+
+  /**
+   * Jump the weather playback to a time, clamped to the keyframes; the
+   * options they set take their values there.
+   */
+  setTime(time: Date | number | string): void {
+    const value = timeValue(time);
+    if (!Number.isFinite(value)) {
+      console.warn(`[maplibre-gl-snow] invalid playback time: ${time}`);
+      return;
+    }
+    this._playbackTime = this._clampTime(value);
+    this._applyPlayback();
+    this.map?.triggerRepaint();
+  }
+
+  /**
+   * Play the weather keyframes at `speed` times real time (negative plays
+   * backwards), and the particles if paused. Playback stops at the last
+   * keyframe; playing from there starts over from the first.
+   */
+  play(speed = 1): void {
+    const times = this._timeline?.times;
+    const time = this._playbackTime;
+    if (times && time !== null) {
+      const first = times[0]!;
+      const last = times[times.length - 1]!;
+      if (speed > 0 && time >= last) this._playbackTime = first;
+      if (speed < 0 && time <= first) this._playbackTime = last;
+    }
+    const playing = this.playing;
+    this._playbackRate = speed;
+    this._paused = false;
+    this._lastFrameTime = 0;
+    if (this.playing !== playing || this._playbackTime !== time) {
+      this._applyPlayback();
+    }
+    this.map?.triggerRepaint();
+  }
+
+  /**
+   * Change the flake shapes or sprites, size distribution, spin and tumble;
+   * null goes back to plain discs. A sprite atlas loads in the background.
+   */
+  setAppearance(appearance: FlakeAppearance | null): void {
+    this._appearance = appearance;
+    this._flakeStyle = resolveAppearance(appearance ?? undefined);
+    this.backend?.setAppearance(this._flakeStyle);
+    this._refreshSprites();
+    this._optionsChanged({ appearance });
+  }
+
+  /** Flake and ground cover color, any CSS color. */
+  setColor(color: string): void {
+    const rgb = parseColor(color);
+    if (!rgb) {
+      console.warn(`[maplibre-gl-snow] invalid color '${color}'`);
+      return;
+    }
+    this._color = color;
+    this.backend?.setColor(...rgb);
+    this._optionsChanged({ color });
+  }
+
+  /**
+   * Light the snow by the sun (the style's light, a date or a position) and
+   * point lights, or turn lighting off. Lights given as a source ID follow
+   * the source's data.
+   */
+  setLighting(options: boolean | LightingOptions): void {
+    this._lighting = resolveLighting(options);
+    this._refreshLights();
+    this._optionsChanged({ lighting: options });
+  }
+
+  /** Size flakes in fixed CSS pixels, or with perspective by distance. */
+  setSizeMode(mode: FlakeSizeMode): void {
+    this._sizeMode = mode;
+    this.backend?.setSizeMode(mode);
+    this._optionsChanged({ sizeMode: mode });
+  }
+
+  /** Turn depth of field on (optionally with a new focus) or off. */
+  setDepthOfField(options: boolean | DepthOfFieldOptions): void {
+    this._depthOfField = resolveDepthOfField(options);
+    this.backend?.setDepthOfField(this._depthOfField);
+    this._optionsChanged({ depthOfField: options });
+  }
+
+  /**
+   * Let the frame rate steer particle count and WebGPU resolution, or turn
+   * that off and go back to full quality.
+   */
+  setAdaptiveQuality(options: boolean | AdaptiveQualityOptions): void {
+    this._governor = createGovernor(options);
+    this._optionsChanged({ adaptiveQuality: options });
+  }
+
+  /** Turn camera-motion streaks on (optionally with new settings) or off. */
+  setCameraMotion(options: boolean | CameraMotionOptions): void {
+    this._cameraMotion = createTracker(options);
+    this._lastView = null;
+    this._optionsChanged({ cameraMotion: options });
+  }
+
+  /** Turn the pointer force field on (optionally with new settings) or off. */
+  setPointer(options: boolean | PointerOptions): void {
+    this._pointer = options;
+    if (this.map) this._bindPointer(this.map, !!options);
+    this._optionsChanged({ pointer: options });
+  }
+
+  /** How to honor the user's prefers-reduced-motion setting. */
+  setReducedMotion(mode: ReducedMotion): void {
+    this._reducedMotion = mode;
+    this.map?.triggerRepaint();
+    this._optionsChanged({ reducedMotion: mode });
+  }
+
+  /** Switch precipitation type; the look blends over about a second. */
+  setPrecipitation(type: PrecipitationType): void {
+    if (type === this._precipitation) return;
+    // Start from whatever is on screen, even if a previous fade is running.
+    this._precipFrom = this._precipitationProfile(this._clock);
+    this._precipitation = type;
+    this._precipFadeStart = this._clock;
+    this._optionsChanged({ precipitation: type });
+  }
+
+  /**
+   * Limit snow to GeoJSON polygons, or to the polygons of a GeoJSON source
+   * (followed as its data changes). Pass null to snow everywhere again.
+   * Only the mask is re-uploaded; particles are not rebuilt.
+   */
+  setBounds(bounds: SnowBounds | null): void {
+    this._bounds = bounds;
+    this._boundsMask = null;
+    this._refreshBounds();
+    this._optionsChanged({ bounds });
+  }
+
+  /** Soft edge width for the bounds, in meters. */
+  setBoundsFade(meters: number): void {
+    this._boundsFade = meters;
+    this._refreshBounds();
+    this._optionsChanged({ boundsFade: meters });
+  }
+
+  /**
+   * Drive intensity from a georeferenced grid, image or raster tile source
+   * (values mapped to 0–1). The local value sets how many particles show
+   * and how fast they fall; outside the field the global settings apply.
+   * Pass null to remove. A field that cannot be read fires an `error` and
+   * keeps the previous one.
+   */
+  setIntensityField(field: IntensityField | null): void {
+    if (field && 'source' in field) {
+      this._intensitySource = field;
+      this._intensityCover = null;
+      this.map?.triggerRepaint();
+    } else {
+      const texture = field
+        ? this._resampleIntensity(field, (error) => this._reportError(error))
+        : null;
+      if (field && !texture) return;
+      this._intensitySource = null;
+      this._intensityCover = null;
+      this._setIntensityField(texture);
+    }
+    this._optionsChanged({ intensityField: field });
+  }
+
+  /**
+   * Drive the wind from gridded U/V components (or grib2json records), in
+   * the same speed units as `direction`. Outside the field the global
+   * direction applies. Pass null to remove.
+   */
+  setWindField(field: WindField | null): void {
+    this._windField = field ? resampleWindField(field) : null;
+    this.backend?.setWindField(this._windField);
+    this._optionsChanged({ windField: field });
+  }
+
+  /** Turn ground cover on (optionally with new rates) or off. */
+  setAccumulation(options: boolean | AccumulationOptions): void {
+    if (!this._accumulation) this.resetAccumulation();
+    this._accumulation = resolveAccumulation(options);
+    this._optionsChanged({ accumulation: options });
+  }
+
+  /**
+   * Clear all ground cover. The coverage grid's resolution is re-picked for
+   * the current zoom.
+   */
+  resetAccumulation(): void {
+    this._accumTexelSize = 0;
+    this._accumClear = true;
+  }
+
+  /**
+   * Read the coverage grid back (0–1 per texel, row 0 at the northern edge)
+   * with its geographic bounds, or null while accumulation is off.
+   */
+  async readAccumulation(): Promise<AccumulationCoverage | null> {
+    const window = this._accumWindow;
+    if (!window || !this.backend) return null;
+    const slots = await this.backend.readAccumulation();
+    return slots ? unwrapCoverage(slots, window) : null;
+  }
+
+  /**
+   * Encode the next frame of the map with its snow and fog as an image.
+   * Rejects with a SnowLayerError when the layer is not on a map or the
+   * frame cannot be read (cross-origin tiles taint the map's canvas).
+   */
+  captureFrame(options?: CaptureOptions): Promise<Blob> {
+    if (!this.map) {
+      return Promise.reject(
+        new SnowLayerError('capture-failed', 'the layer is not on a map'),
+      );
+    }
+    return captureMap(this.map, this._overlayCanvas, options);
+  }
+
+  /**
+   * Start recording the map with its snow as video; stopRecording() ends
+   * it. Throws a SnowLayerError when already recording, when the layer is
+   * not on a map or when the browser cannot record.
+   */
+  startRecording(options?: RecordingOptions): void {
+    if (this._recorder?.recording) {
+      throw new SnowLayerError('capture-failed', 'already recording');
+    }
+    if (!this.map) {
+      throw new SnowLayerError('capture-failed', 'the layer is not on a map');
+    }
+    this._recorder = new FrameRecorder(this.map, this._overlayCanvas, options);
+  }
+
+  /** Stop recording; resolves with the video. */
+  stopRecording(): Promise<Blob> {
+    const recorder = this._recorder;
+    this._recorder = null;
+    if (!recorder) {
+      return Promise.reject(
+        new SnowLayerError('capture-failed', 'not recording'),
+      );
+    }
+    return recorder.stop();
   }
 }
 
-export { MaplibreSnowLayer };
+export { MaplibreSnowLayer, SnowLayerError };
+export type {
+  AccumulationCoverage,
+  AccumulationOptions,
+  AdaptiveQualityOptions,
+  CameraMotionOptions,
+  CaptureOptions,
+  DepthOfFieldOptions,
+  FlakeAppearance,
+  FlakeShape,
+  FlakeSizeMode,
+  FlakeSprites,
+  FogOptions,
+  GeoBounds,
+  Grib2JsonRecord,
+  GridField,
+  GustOptions,
+  ImageField,
+  IntensityField,
+  KeyframeProvider,
+  KeyframeSource,
+  LightingOptions,
+  NumberOrExpression,
+  PointerMode,
+  PointerOptions,
+  PrecipitationType,
+  RasterSourceField,
+  RecordingOptions,
+  ReducedMotion,
+  SnowBounds,
+  SnowErrorCode,
+  SnowUnits,
+  SunPosition,
+  TransitionOptions,
+  TransitionValues,
+  TurbulenceOptions,
+  WeatherKeyframe,
+  WindField,
+  WindGrid,
+};
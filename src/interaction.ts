@@ -0,0 +1,224 @@
+/**
+ * Camera-motion streaks and the pointer force field.
+ *
+ * Each frame the layer measures how the view moved: the pan of the ground
+ * under the screen centre, the turn and the zoom. The tracker smooths these
+ * into a screen velocity field that eases out after the camera stops, and
+ * the backends smear each flake along the field at its position over the
+ * exposure, like a camera shutter, so fast pans, turns and zooms streak the
+ * snow. Pitch changes are not measured.
+ *
+ * The pointer pushes flakes within a radius of its ground position away, or
+ * swirls them around it. The force eases the flakes' drift velocity like
+ * the eddies do (see turbulence.ts), only faster, so pushed flakes coast on
+ * and settle back once the pointer has passed.
+ */
+import type { SnowUnits } from './units';
+
+export interface CameraMotionOptions {
+  /** Seconds of motion each flake is smeared over (default: 1/30) */
+  exposure?: number;
+  /** Longest streak in CSS pixels (default: 80) */
+  maxLength?: number;
+}
+
+/** 'push' moves flakes away from the pointer, 'swirl' around it */
+export type PointerMode = 'push' | 'swirl';
+
+export interface PointerOptions {
+  /** Reach around the pointer in CSS pixels (default: 100) */
+  radius?: number;
+  /**
+   * Speed at the pointer in px/s like `direction`'s, or m/s with metric
+   * units (default: 300 px/s, 10 m/s)
+   */
+  strength?: number;
+  /** What the force does (default: 'push') */
+  mode?: PointerMode;
+}
+
+/** Fill in defaults; false / undefined turns camera-motion streaks off. */
+export function resolveCameraMotion(
+  options: boolean | CameraMotionOptions | undefined,
+): Required<CameraMotionOptions> | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  return {
+    exposure: Math.max(0, o.exposure ?? 1 / 30),
+    maxLength: Math.max(0, o.maxLength ?? 80),
+  };
+}
+
+const POINTER_STRENGTH: Record<SnowUnits, number> = {
+  pixels: 300,
+  metric: 10,
+};
+
+/** Fill in defaults for the units; false / undefined turns the pointer off. */
+export function resolvePointer(
+  options: boolean | PointerOptions | undefined,
+  units: SnowUnits,
+): Required<PointerOptions> | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  return {
+    radius: Math.max(1, o.radius ?? 100),
+    strength: Math.max(0, o.strength ?? POINTER_STRENGTH[units]),
+    mode: o.mode ?? 'push',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Camera motion
+// ---------------------------------------------------------------------------
+
+/**
+ * Screen motion over the exposure, about the screen centre in CSS pixels
+ * with y up: a point at offset p moves by
+ * shift + (rotate(turn) · p − p) + zoom · p.
+ */
+export interface CameraMotion {
+  shiftX: number;
+  shiftY: number;
+  /** Radians, counter-clockwise */
+  turn: number;
+  /** Relative growth of offsets from the centre */
+  zoom: number;
+  /** Longest streak in CSS pixels */
+  maxLength: number;
+}
+
+// Time constant of the smoothing (ms): streaks ease out over about this
+// long after the camera stops.
+const CAMERA_SMOOTHING_MS = 120;
+
+// Below these rates (px/s, rad/s, 1/s) the camera counts as still.
+const STILL_SHIFT = 1;
+const STILL_RATE = 1e-3;
+
+/** Frames further apart than this are stalls, not camera motion */
+const MAX_MOTION_FRAME_MS = 250;
+
+export class CameraMotionTracker {
+  private options: Required<CameraMotionOptions>;
+  // Smoothed rates: pan in px/s (y up), turn in rad/s, zoom in 1/s.
+  private shiftX = 0;
+  private shiftY = 0;
+  private turn = 0;
+  private zoom = 0;
+
+  constructor(options: Required<CameraMotionOptions>) {
+    this.options = options;
+  }
+
+  /** Whether the streaks are still easing out. */
+  get moving(): boolean {
+    return (
+      Math.hypot(this.shiftX, this.shiftY) > STILL_SHIFT ||
+      Math.abs(this.turn) > STILL_RATE ||
+      Math.abs(this.zoom) > STILL_RATE
+    );
+  }
+
+  /**
+   * Take one frame's view change: the pan of the old centre in CSS pixels
+   * (y up), and the bearing (degrees) and zoom differences.
+   */
+  update(
+    elapsed: number,
+    panX: number,
+    panY: number,
+    bearingDelta: number,
+    zoomDelta: number,
+  ): void {
+    if (elapsed <= 0 || elapsed > MAX_MOTION_FRAME_MS) return;
+    const seconds = elapsed / 1000;
+    // Map bearing grows clockwise on the compass, turning the map
+    // counter-clockwise on screen.
+    const turn = ((((bearingDelta % 360) + 540) % 360) - 180) * (Math.PI / 180);
+    const k = 1 - Math.exp(-elapsed / CAMERA_SMOOTHING_MS);
+    this.shiftX += (panX / seconds - this.shiftX) * k;
+    this.shiftY += (panY / seconds - this.shiftY) * k;
+    this.turn += (turn / seconds - this.turn) * k;
+    this.zoom += ((zoomDelta * Math.LN2) / seconds - this.zoom) * k;
+  }
+
+  /** Motion over the exposure, or null while the camera is still. */
+  motion(): CameraMotion | null {
+    if (!this.moving) return null;
+    const { exposure, maxLength } = this.options;
+    return {
+      shiftX: this.shiftX * exposure,
+      shiftY: this.shiftY * exposure,
+      turn: this.turn * exposure,
+      zoom: Math.expm1(this.zoom * exposure),
+      maxLength,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Pointer
+// ---------------------------------------------------------------------------
+
+/** Share of the gap to the pointer's velocity a flake closes each step */
+export const POINTER_RESPONSE = 0.2;
+
+/** The pointer in the backends' units for the current frame */
+export interface PointerFrame {
+  /** Mercator position of the pointer on the ground */
+  x: number;
+  y: number;
+  /** Reach, mercator units */
+  radius: number;
+  /** Speed at the pointer, mercator units per step */
+  speed: number;
+  swirl: boolean;
+}
+
+/**
+ * The pointer at a mercator position, given the mercator units per CSS
+ * pixel, per unit of speed (see units.ts) and how far one unit per second
+ * moves a flake in a step.
+ */
+export function pointerFrame(
+  pointer: Required<PointerOptions>,
+  x: number,
+  y: number,
+  mercPerPixel: number,
+  perStep: number,
+): PointerFrame {
+  return {
+    x,
+    y,
+    radius: pointer.radius * mercPerPixel,
+    speed: pointer.strength * perStep,
+    swirl: pointer.mode === 'swirl',
+  };
+}
+
+/**
+ * The pointer's velocity at a mercator position, in mercator units per
+ * step, and how strongly it acts there (0–1, falling off to the radius),
+ * written to `out` as [vx, vy, weight].
+ */
+export function pointerVelocity(
+  frame: PointerFrame,
+  x: number,
+  y: number,
+  out: number[],
+): void {
+  const dx = x - frame.x;
+  const dy = y - frame.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance >= frame.radius) {
+    out[0] = out[1] = out[2] = 0;
+    return;
+  }
+  const reach = 1 - distance / frame.radius;
+  const weight = reach * reach;
+  const scale = (frame.speed * weight) / Math.max(distance, 1e-12);
+  out[0] = (frame.swirl ? -dy : dx) * scale;
+  out[1] = (frame.swirl ? dx : dy) * scale;
+  out[2] = weight;
+}
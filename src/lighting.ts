@@ -0,0 +1,313 @@
+/**
+ * Snow lit by the sun and by nearby point lights.
+ *
+ * The sun (from the style's `light`, a date or an explicit position) comes
+ * down to one RGB tint per frame: bright at noon, warm at sunset, dim blue
+ * at night. Point lights such as street lamps are splatted into an RGB glow
+ * grid around the view, rebuilt as the view moves like the terrain
+ * heightmap, and flakes sample it at their position; the glow fades with
+ * height away from the lights.
+ */
+import type { GeoJSON, Geometry, Position } from 'geojson';
+import { lerp, lngLatToMercator, mercatorPerMeter } from './shared';
+
+/** Sun position in degrees: azimuth clockwise from north, altitude above the horizon */
+export interface SunPosition {
+  azimuth: number;
+  altitude: number;
+}
+
+export interface LightingOptions {
+  /**
+   * Where the sun is: 'style' follows the style's `light`; a Date (or epoch
+   * milliseconds) places it for the map centre (default: 'style')
+   */
+  sun?: 'style' | Date | number | SunPosition;
+  /**
+   * Point lights: GeoJSON points, or a GeoJSON source ID. Features may set
+   * `color` (CSS color) and `intensity` properties
+   */
+  lights?: GeoJSON | string;
+  /** Glow color of lights without a `color` property (default: '#ffc87a') */
+  lightColor?: string;
+  /** Glow radius around each light, meters (default: 30) */
+  lightRadius?: number;
+  /** Glow strength of lights without an `intensity` property (default: 1) */
+  lightIntensity?: number;
+}
+
+export interface ResolvedLighting {
+  sun: 'style' | Date | SunPosition;
+  lights: GeoJSON | string | null;
+  lightColor: [number, number, number];
+  lightRadius: number;
+  lightIntensity: number;
+}
+
+/** A point light in mercator space */
+export interface PointLight {
+  x: number;
+  y: number;
+  /** Altitude and glow radius, mercator units */
+  z: number;
+  radius: number;
+  color: [number, number, number];
+  intensity: number;
+}
+
+/** Glow grid resolution (texels per side) */
+export const GLOW_GRID_SIZE = 128;
+
+/** Glow grid extent relative to the view box, so small pans stay covered */
+const GLOW_COVERAGE = 1.5;
+
+/** Point-light glow around the view, handed to the backends */
+export interface GlowGrid {
+  /** Mercator origin of the square grid */
+  minX: number;
+  minY: number;
+  /** Side length in mercator units */
+  size: number;
+  /** Mean altitude of the lights and the height the glow fades over (merc) */
+  base: number;
+  reach: number;
+  /** GLOW_GRID_SIZE² RGBA texels, row 0 at minY */
+  data: Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// Colors
+// ---------------------------------------------------------------------------
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/** Parse a CSS color to 0–1 RGB; null when it is not a color. */
+export function parseColor(value: string): [number, number, number] | null {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim())?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? [...hex].map((c) => c + c).join('') : hex;
+    const n = parseInt(full, 16);
+    return [(n >> 16) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+  }
+  // Anything else goes through the browser, which normalises named,
+  // rgb() and hsl() colors to '#rrggbb' or 'rgba(r, g, b, a)'.
+  colorContext ??= document.createElement('canvas').getContext('2d');
+  if (!colorContext) return null;
+  colorContext.fillStyle = '#000001';
+  colorContext.fillStyle = value;
+  const normalised = colorContext.fillStyle;
+  if (normalised === '#000001') return null;
+  if (normalised.startsWith('#')) return parseColor(normalised);
+  const rgb = normalised.match(/[\d.]+/g)?.map(Number);
+  return rgb && rgb.length >= 3
+    ? [rgb[0]! / 255, rgb[1]! / 255, rgb[2]! / 255]
+    : null;
+}
+
+/** Fill in defaults; false / undefined turns lighting off. */
+export function resolveLighting(
+  options: boolean | LightingOptions | undefined,
+): ResolvedLighting | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  const sun = o.sun ?? 'style';
+  return {
+    sun: typeof sun === 'number' ? new Date(sun) : sun,
+    lights: o.lights ?? null,
+    lightColor: parseColor(o.lightColor ?? '#ffc87a') ?? [1, 0.78, 0.48],
+    lightRadius: Math.max(0, o.lightRadius ?? 30),
+    lightIntensity: Math.max(0, o.lightIntensity ?? 1),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sun
+// ---------------------------------------------------------------------------
+
+const RAD = Math.PI / 180;
+
+/**
+ * Sun position for a time and place, from the low-precision formulas of the
+ * Astronomical Almanac (good to about a degree, plenty for tinting).
+ */
+export function sunPosition(date: Date, lng: number, lat: number): SunPosition {
+  // Days since J2000.0 (2000-01-01 12:00 UTC)
+  const d = date.valueOf() / 86400000 - 10957.5;
+  const m = RAD * (357.5291 + 0.98560028 * d);
+  const c =
+    RAD *
+    (1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+  const eclipticLng = m + c + RAD * 102.9372 + Math.PI;
+  const obliquity = RAD * 23.4397;
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLng));
+  const rightAscension = Math.atan2(
+    Math.sin(eclipticLng) * Math.cos(obliquity),
+    Math.cos(eclipticLng),
+  );
+  const siderealTime = RAD * (280.16 + 360.9856235 * d) + RAD * lng;
+  const h = siderealTime - rightAscension;
+  const phi = RAD * lat;
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(declination) +
+      Math.cos(phi) * Math.cos(declination) * Math.cos(h),
+  );
+  // Measured from south, westward; turned to clockwise from north.
+  const azimuth = Math.atan2(
+    Math.sin(h),
+    Math.cos(h) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi),
+  );
+  return {
+    azimuth: (azimuth / RAD + 540) % 360,
+    altitude: altitude / RAD,
+  };
+}
+
+// Light color by sun altitude (degrees), from night to full day.
+const DAYLIGHT: [number, [number, number, number]][] = [
+  [-12, [0.22, 0.27, 0.42]],
+  [-4, [0.5, 0.45, 0.62]],
+  [2, [1.0, 0.7, 0.48]],
+  [10, [1.0, 0.92, 0.82]],
+  [30, [1.0, 1.0, 1.0]],
+];
+
+/** Light color for a sun altitude: night blue, sunset warm, white by day. */
+export function daylightColor(altitude: number): [number, number, number] {
+  const first = DAYLIGHT[0]!;
+  if (altitude <= first[0]) return first[1];
+  for (let i = 1; i < DAYLIGHT.length; i++) {
+    const [a1, c1] = DAYLIGHT[i]!;
+    if (altitude > a1) continue;
+    const [a0, c0] = DAYLIGHT[i - 1]!;
+    const t = (altitude - a0) / (a1 - a0);
+    return [
+      lerp(c0[0], c1[0], t),
+      lerp(c0[1], c1[1], t),
+      lerp(c0[2], c1[2], t),
+    ];
+  }
+  return DAYLIGHT[DAYLIGHT.length - 1]![1];
+}
+
+// ---------------------------------------------------------------------------
+// Point lights
+// ---------------------------------------------------------------------------
+
+/**
+ * Collect the Point and MultiPoint positions of a GeoJSON object. Heights
+ * come from a third coordinate, else from `elevation` (meters, or null).
+ */
+export function collectLights(
+  data: GeoJSON,
+  lighting: ResolvedLighting,
+  elevation: (lng: number, lat: number) => number | null,
+): PointLight[] {
+  const lights: PointLight[] = [];
+  const add = (
+    position: Position,
+    properties: Record<string, unknown> | null,
+  ) => {
+    const [lng, lat, alt] = position;
+    if (lng === undefined || lat === undefined) return;
+    const { x, y } = lngLatToMercator(lng, lat);
+    const color =
+      typeof properties?.['color'] === 'string'
+        ? parseColor(properties['color'])
+        : null;
+    const intensity = properties?.['intensity'];
+    const scale = mercatorPerMeter(lat);
+    lights.push({
+      x,
+      y,
+      z: (alt ?? elevation(lng, lat) ?? 0) * scale,
+      radius: lighting.lightRadius * scale,
+      color: color ?? lighting.lightColor,
+      intensity:
+        typeof intensity === 'number'
+          ? Math.max(0, intensity)
+          : lighting.lightIntensity,
+    });
+  };
+  const visit = (
+    geometry: Geometry | null,
+    properties: Record<string, unknown> | null,
+  ) => {
+    if (!geometry) return;
+    if (geometry.type === 'Point') add(geometry.coordinates, properties);
+    else if (geometry.type === 'MultiPoint') {
+      for (const p of geometry.coordinates) add(p, properties);
+    } else if (geometry.type === 'GeometryCollection') {
+      for (const g of geometry.geometries) visit(g, properties);
+    }
+  };
+  if (data.type === 'FeatureCollection') {
+    for (const f of data.features) visit(f.geometry, f.properties);
+  } else if (data.type === 'Feature') {
+    visit(data.geometry, data.properties);
+  } else {
+    visit(data, null);
+  }
+  return lights;
+}
+
+/**
+ * Splat the lights around a view centre into a glow grid: each adds its
+ * color × intensity, falling off quadratically to zero at its radius.
+ * Lights narrower than 1.5 texels are widened so they do not vanish
+ * between samples.
+ */
+export function buildGlowGrid(
+  lights: PointLight[],
+  cx: number,
+  cy: number,
+  halfSpan: number,
+): GlowGrid {
+  const n = GLOW_GRID_SIZE;
+  const size = halfSpan * 2 * GLOW_COVERAGE;
+  const minX = cx - size / 2;
+  const minY = cy - size / 2;
+  const texel = size / n;
+  const glow = new Float32Array(n * n * 3);
+  let base = 0;
+  let reach = 0;
+  let count = 0;
+  for (const light of lights) {
+    const r = Math.max(light.radius, texel * 1.5);
+    const i0 = Math.max(0, Math.floor((light.x - r - minX) / texel));
+    const i1 = Math.min(n - 1, Math.floor((light.x + r - minX) / texel));
+    const j0 = Math.max(0, Math.floor((light.y - r - minY) / texel));
+    const j1 = Math.min(n - 1, Math.floor((light.y + r - minY) / texel));
+    if (i0 > i1 || j0 > j1) continue;
+    base += light.z;
+    reach += light.radius;
+    count++;
+    for (let j = j0; j <= j1; j++) {
+      const dy = minY + (j + 0.5) * texel - light.y;
+      for (let i = i0; i <= i1; i++) {
+        const dx = minX + (i + 0.5) * texel - light.x;
+        const falloff = 1 - Math.sqrt(dx * dx + dy * dy) / r;
+        if (falloff <= 0) continue;
+        const w = falloff * falloff * light.intensity;
+        const o = (j * n + i) * 3;
+        glow[o] = glow[o]! + light.color[0] * w;
+        glow[o + 1] = glow[o + 1]! + light.color[1] * w;
+        glow[o + 2] = glow[o + 2]! + light.color[2] * w;
+      }
+    }
+  }
+  const data = new Uint8Array(n * n * 4);
+  for (let k = 0; k < n * n; k++) {
+    for (let c = 0; c < 3; c++) {
+      data[k * 4 + c] = Math.round(Math.min(1, glow[k * 3 + c]!) * 255);
+    }
+    data[k * 4 + 3] = 255;
+  }
+  return {
+    minX,
+    minY,
+    size,
+    base: count ? base / count : 0,
+    reach: count ? reach / count : 0,
+    data,
+  };
+}
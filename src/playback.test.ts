@@ -0,0 +1,110 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import {
+  bracket,
+  buildTimeline,
+  keyframeBefore,
+  sampleTimeline,
+  type WeatherTimeline,
+} from './playback';
+
+describe('keyframeBefore', () => {
+  const times = [10, 20, 20, 30];
+
+  test('is -1 before the first keyframe', () => {
+    expect(keyframeBefore(times, 5)).toBe(-1);
+  });
+
+  test('takes the last keyframe at or before the time', () => {
+    expect(keyframeBefore(times, 10)).toBe(0);
+    expect(keyframeBefore(times, 15)).toBe(0);
+    expect(keyframeBefore(times, 20)).toBe(2);
+    expect(keyframeBefore(times, 30)).toBe(3);
+    expect(keyframeBefore(times, 99)).toBe(3);
+  });
+});
+
+describe('bracket', () => {
+  const timeline: WeatherTimeline = {
+    times: [0, 10, 20],
+    frames: [{ density: 1 }, { opacity: 0.5 }, { density: 3 }],
+  };
+
+  test('skips keyframes that leave the option out', () => {
+    const [from, to, t] = bracket(timeline, 1, 15, 'density')!;
+    expect(from).toBe(timeline.frames[0]!);
+    expect(to).toBe(timeline.frames[2]!);
+    expect(t).toBe(0.75);
+  });
+
+  test('holds the first and last values outside the keyframes', () => {
+    expect(bracket(timeline, -1, -5, 'density')).toEqual([
+      { density: 1 },
+      { density: 1 },
+      0,
+    ]);
+    expect(bracket(timeline, 2, 25, 'density')).toEqual([
+      { density: 3 },
+      { density: 3 },
+      0,
+    ]);
+  });
+
+  test('is null for an option no keyframe sets', () => {
+    expect(bracket(timeline, 1, 15, 'intensity')).toBeNull();
+  });
+});
+
+describe('sampleTimeline', () => {
+  test('interpolates each option between the keyframes setting it', () => {
+    const timeline = buildTimeline([
+      { time: 0, density: 1, opacity: 0 },
+      { time: 10, opacity: 1 },
+      { time: 20, density: 3 },
+    ])!;
+    expect(sampleTimeline(timeline, 5)).toEqual({ density: 1.5, opacity: 0.5 });
+    expect(sampleTimeline(timeline, 15)).toEqual({ density: 2.5, opacity: 1 });
+  });
+
+  test('turns the wind through the shortest angle', () => {
+    const timeline = buildTimeline([
+      { time: 0, direction: [350, 1] },
+      { time: 10, direction: [10, 3] },
+    ])!;
+    const [azimuth, speed] = sampleTimeline(timeline, 5).direction!;
+    expect(azimuth).toBeCloseTo(0);
+    expect(speed).toBe(2);
+  });
+});
+
+describe('buildTimeline', () => {
+  test('sorts keyframes and reads their times', () => {
+    const timeline = buildTimeline([
+      { time: '2024-01-01T00:00:10Z', density: 2 },
+      { time: new Date('2024-01-01T00:00:00Z'), density: 1 },
+      { time: Date.UTC(2024, 0, 1, 0, 0, 20), density: 3 },
+    ])!;
+    const start = Date.UTC(2024, 0, 1);
+    expect(timeline.times).toEqual([start, start + 10_000, start + 20_000]);
+    expect(timeline.frames).toEqual([
+      { density: 1 },
+      { density: 2 },
+      { density: 3 },
+    ]);
+  });
+
+  test('drops keyframes without a valid time', () => {
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    const timeline = buildTimeline([
+      { time: 'not a time', density: 1 },
+      { time: 5, density: 2 },
+    ])!;
+    expect(timeline.times).toEqual([5]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(buildTimeline([{ time: NaN }])).toBeNull();
+    warn.mockRestore();
+  });
+
+  test('rejects anything but an array', () => {
+    expect(() => buildTimeline({} as never)).toThrow(TypeError);
+  });
+});
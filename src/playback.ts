@@ -0,0 +1,160 @@
+/**
+ * Weather playback: layer settings following timestamped keyframes.
+ *
+ * Each keyframe sets some of the options transitions animate, at a point in
+ * time. Between two keyframes that set an option it is interpolated like a
+ * transition, linearly with the wind azimuth turning through the shortest
+ * angle; before the first and after the last it holds. Keyframes come as an
+ * array, the URL of a JSON file holding one, or a provider function that
+ * loads them from anywhere.
+ */
+import { lerp } from './shared';
+import { lerpAzimuth, type TransitionValues } from './transition';
+
+/** Conditions at a point in time; options left out are interpolated past it */
+export interface WeatherKeyframe extends TransitionValues {
+  /** A Date, milliseconds since the epoch, or an ISO 8601 string */
+  time: Date | number | string;
+}
+
+/** Loads keyframes; the signal aborts when they are replaced. */
+export type KeyframeProvider = (
+  signal: AbortSignal,
+) => Promise<WeatherKeyframe[]>;
+
+/** Keyframes, the URL of a JSON array of them, or a provider */
+export type KeyframeSource = WeatherKeyframe[] | string | KeyframeProvider;
+
+/** Valid keyframes in time order, times in milliseconds since the epoch */
+export interface WeatherTimeline {
+  times: number[];
+  frames: TransitionValues[];
+}
+
+const NUMBER_KEYS = [
+  'density',
+  'intensity',
+  'flakeSize',
+  'opacity',
+  'fogOpacity',
+] as const;
+
+/** Milliseconds since the epoch, NaN when the time cannot be read. */
+export function timeValue(time: Date | number | string): number {
+  if (time instanceof Date) return time.getTime();
+  return typeof time === 'number' ? time : Date.parse(time);
+}
+
+/** Fetch or call the source for its keyframes. */
+export async function loadKeyframes(
+  source: KeyframeSource,
+  signal: AbortSignal,
+): Promise<WeatherKeyframe[]> {
+  if (Array.isArray(source)) return source;
+  if (typeof source === 'function') return source(signal);
+  const response = await fetch(source, { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} loading ${source}`);
+  }
+  return (await response.json()) as WeatherKeyframe[];
+}
+
+/**
+ * Sort keyframes by time, dropping those without a valid one; null when
+ * none is left.
+ */
+export function buildTimeline(
+  keyframes: WeatherKeyframe[],
+): WeatherTimeline | null {
+  if (!Array.isArray(keyframes)) {
+    throw new TypeError('keyframes must be an array');
+  }
+  const timed = keyframes
+    .map((keyframe) => {
+      const { time, ...values } = keyframe;
+      return { time: timeValue(time), values };
+    })
+    .filter((keyframe) => Number.isFinite(keyframe.time))
+    .sort((a, b) => a.time - b.time);
+  const skipped = keyframes.length - timed.length;
+  if (skipped > 0) {
+    console.warn(
+      `[maplibre-gl-snow] skipped ${skipped} keyframe(s) without a valid time`,
+    );
+  }
+  if (timed.length === 0) return null;
+  return {
+    times: timed.map((keyframe) => keyframe.time),
+    frames: timed.map((keyframe) => keyframe.values),
+  };
+}
+
+/** The options any keyframe sets. */
+export function timelineKeys(
+  timeline: WeatherTimeline,
+): (keyof TransitionValues)[] {
+  const keys = new Set<keyof TransitionValues>();
+  for (const frame of timeline.frames) {
+    for (const key of Object.keys(frame) as (keyof TransitionValues)[]) {
+      if (frame[key] !== undefined) keys.add(key);
+    }
+  }
+  return [...keys];
+}
+
+/** Last keyframe at or before `time`, -1 before the first. */
+export function keyframeBefore(times: number[], time: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid]! <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+}
+
+/**
+ * Nearest keyframes on either side of `index` that set an option, and how
+ * far `time` is from the first towards the second.
+ */
+export function bracket(
+  timeline: WeatherTimeline,
+  index: number,
+  time: number,
+  key: keyof TransitionValues,
+): [TransitionValues, TransitionValues, number] | null {
+  const { times, frames } = timeline;
+  let before = index;
+  while (before >= 0 && frames[before]![key] === undefined) before--;
+  let after = index + 1;
+  while (after < frames.length && frames[after]![key] === undefined) after++;
+  if (before < 0 && after >= frames.length) return null;
+  if (before < 0) return [frames[after]!, frames[after]!, 0];
+  if (after >= frames.length) return [frames[before]!, frames[before]!, 0];
+  const span = times[after]! - times[before]!;
+  const t = span > 0 ? (time - times[before]!) / span : 1;
+  return [frames[before]!, frames[after]!, t];
+}
+
+/** The options the keyframes set, interpolated at `time` (ms). */
+export function sampleTimeline(
+  timeline: WeatherTimeline,
+  time: number,
+): TransitionValues {
+  const index = keyframeBefore(timeline.times, time);
+  const values: TransitionValues = {};
+  for (const key of NUMBER_KEYS) {
+    const found = bracket(timeline, index, time, key);
+    if (found) values[key] = lerp(found[0][key]!, found[1][key]!, found[2]);
+  }
+  const wind = bracket(timeline, index, time, 'direction');
+  if (wind) {
+    const [from, to, t] = [wind[0].direction!, wind[1].direction!, wind[2]];
+    values.direction = [
+      lerpAzimuth(from[0], to[0], t),
+      lerp(from[1], to[1], t),
+    ];
+  }
+  return values;
+}
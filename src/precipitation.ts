@@ -0,0 +1,134 @@
+/**
+ * Precipitation presets.
+ *
+ * Each type is described by a flat set of numbers so two profiles can be
+ * linearly blended while the layer switches between them.
+ */
+import { lerp } from './shared';
+
+export type PrecipitationType = 'snow' | 'rain' | 'sleet' | 'hail';
+
+/** Duration of the blend when switching type at runtime */
+export const PRECIPITATION_FADE_MS = 1000;
+
+export interface PrecipitationProfile {
+  /** Fall speed in px/s at intensity 1 */
+  fallSpeed: number;
+  /** Fall speed in m/s at intensity 1, with metric units */
+  metricFallSpeed: number;
+  /** Per-particle fall speed spread: multiplier range is [1 - jitter, 1] */
+  speedJitter: number;
+  /** Fraction of the wind speed the particles pick up */
+  windFactor: number;
+  /** Multiplier on flakeSize for the particle width */
+  size: number;
+  /** Length / width ratio; values > 1 stretch particles along their velocity */
+  stretch: number;
+  /** Edge softness 0–1 (0 = hard pellet, 1 = fully feathered) */
+  softness: number;
+  /** How much alpha fades towards the trailing end of a streak, 0–1 */
+  tail: number;
+  /** Ambient share of the disc shading, 0–1 (1 = flat) */
+  ambient: number;
+  /** Linear RGB tint */
+  color: [number, number, number];
+  /** Multiplier on the layer opacity */
+  alpha: number;
+  /** Share of landed particles that add to ground cover, 0–1 */
+  settle: number;
+  /** How much of the flake appearance (shape, sprite, spin) shows, 0–1 */
+  crystal: number;
+}
+
+export const PRECIPITATION_PROFILES: Record<
+  PrecipitationType,
+  PrecipitationProfile
+> = {
+  snow: {
+    fallSpeed: 40,
+    metricFallSpeed: 2,
+    speedJitter: 0.5,
+    windFactor: 1,
+    size: 1,
+    stretch: 1,
+    softness: 0.16,
+    tail: 0,
+    ambient: 0.3,
+    color: [1, 1, 1],
+    alpha: 1,
+    settle: 1,
+    crystal: 1,
+  },
+  rain: {
+    fallSpeed: 400,
+    metricFallSpeed: 13,
+    speedJitter: 0.2,
+    windFactor: 0.5,
+    size: 0.45,
+    stretch: 8,
+    softness: 0.5,
+    tail: 0.8,
+    ambient: 0.7,
+    color: [0.7, 0.78, 0.9],
+    alpha: 0.6,
+    settle: 0,
+    crystal: 0,
+  },
+  sleet: {
+    fallSpeed: 150,
+    metricFallSpeed: 8,
+    speedJitter: 0.3,
+    windFactor: 0.6,
+    size: 0.7,
+    stretch: 2.5,
+    softness: 0.2,
+    tail: 0.3,
+    ambient: 0.5,
+    color: [0.85, 0.9, 0.95],
+    alpha: 0.9,
+    settle: 0.4,
+    crystal: 0,
+  },
+  hail: {
+    fallSpeed: 250,
+    metricFallSpeed: 30,
+    speedJitter: 0.25,
+    windFactor: 0.3,
+    size: 0.75,
+    stretch: 1,
+    softness: 0.04,
+    tail: 0,
+    ambient: 0.2,
+    color: [0.92, 0.95, 1],
+    alpha: 1,
+    settle: 0.2,
+    crystal: 0,
+  },
+};
+
+/** Blend two profiles; t = 0 gives `from`, t = 1 gives `to`. */
+export function mixPrecipitation(
+  from: PrecipitationProfile,
+  to: PrecipitationProfile,
+  t: number,
+): PrecipitationProfile {
+  return {
+    fallSpeed: lerp(from.fallSpeed, to.fallSpeed, t),
+    metricFallSpeed: lerp(from.metricFallSpeed, to.metricFallSpeed, t),
+    speedJitter: lerp(from.speedJitter, to.speedJitter, t),
+    windFactor: lerp(from.windFactor, to.windFactor, t),
+    size: lerp(from.size, to.size, t),
+    stretch: lerp(from.stretch, to.stretch, t),
+    softness: lerp(from.softness, to.softness, t),
+    tail: lerp(from.tail, to.tail, t),
+    ambient: lerp(from.ambient, to.ambient, t),
+    color: [
+      lerp(from.color[0], to.color[0], t),
+      lerp(from.color[1], to.color[1], t),
+      lerp(from.color[2], to.color[2], t),
+    ],
+    alpha: lerp(from.alpha, to.alpha, t),
+    settle: lerp(from.settle, to.settle, t),
+    crystal: lerp(from.crystal, to.crystal, t),
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { MAX_FRAME_MS, QualityGovernor } from './quality';
+
+const options = { targetFps: 50, minParticles: 0.25, minResolution: 0.5 };
+
+// Feed `frames` frames of `ms` each; how many of them changed the scales.
+function run(governor: QualityGovernor, ms: number, frames: number): number {
+  let changes = 0;
+  for (let i = 0; i < frames; i++) if (governor.update(ms)) changes++;
+  return changes;
+}
+
+describe('QualityGovernor', () => {
+  test('leaves quality alone within the budget', () => {
+    const governor = new QualityGovernor(options);
+    expect(run(governor, 20, 500)).toBe(0);
+    expect(governor.particleScale).toBe(1);
+    expect(governor.resolutionScale).toBe(1);
+  });
+
+  test('adjusts at most once a second', () => {
+    const governor = new QualityGovernor(options);
+    expect(run(governor, 40, 24)).toBe(0);
+    expect(governor.update(40)).toBe(true);
+    expect(governor.particleScale).toBeCloseTo(0.8);
+    expect(run(governor, 40, 24)).toBe(0);
+  });
+
+  test('sheds particles first, then resolution, down to the minimums', () => {
+    const governor = new QualityGovernor(options);
+    run(governor, 40, 25 * 7);
+    expect(governor.particleScale).toBe(0.25);
+    expect(governor.resolutionScale).toBe(1);
+    run(governor, 40, 25 * 10);
+    expect(governor.particleScale).toBe(0.25);
+    expect(governor.resolutionScale).toBe(0.5);
+  });
+
+  test('restores resolution first, then particles', () => {
+    const governor = new QualityGovernor(options);
+    run(governor, 40, 25 * 20);
+    run(governor, 10, 100 * 2);
+    expect(governor.resolutionScale).toBeGreaterThan(0.5);
+    expect(governor.particleScale).toBe(0.25);
+    run(governor, 10, 100 * 20);
+    expect(governor.resolutionScale).toBe(1);
+    expect(governor.particleScale).toBe(1);
+  });
+
+  test('ignores stalls and hidden time', () => {
+    const governor = new QualityGovernor(options);
+    expect(run(governor, MAX_FRAME_MS + 1, 100)).toBe(0);
+    expect(run(governor, 0, 100)).toBe(0);
+    expect(governor.particleScale).toBe(1);
+  });
+});
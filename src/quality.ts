@@ -0,0 +1,139 @@
+/**
+ * Adaptive quality and reduced motion.
+ *
+ * The governor watches frame times and trades quality for frame rate: over
+ * budget it first shows fewer particles, then renders WebGPU output at a
+ * lower resolution; with headroom it restores resolution first, then
+ * particles. Steps are small and at least a second apart, so quality
+ * settles instead of oscillating.
+ */
+
+export interface AdaptiveQualityOptions {
+  /** Frame rate to hold (default: 50) */
+  targetFps?: number;
+  /** Lowest share of the density's particles, 0–1 (default: 0.25) */
+  minParticles?: number;
+  /** Lowest WebGPU render resolution relative to the device's, 0–1 (default: 0.5) */
+  minResolution?: number;
+}
+
+/**
+ * What to do when the user prefers reduced motion: 'reduce' shows a third
+ * of the particles falling at half speed, 'slow' all of them at a quarter
+ * speed, 'static' freezes the flakes in place and 'ignore' animates as
+ * usual.
+ */
+export type ReducedMotion = 'reduce' | 'slow' | 'static' | 'ignore';
+
+/** Particle share and simulation speed for a reduced-motion mode */
+export interface MotionScale {
+  particles: number;
+  speed: number;
+}
+
+const MOTION_SCALES: Record<ReducedMotion, MotionScale> = {
+  reduce: { particles: 1 / 3, speed: 0.5 },
+  slow: { particles: 1, speed: 0.25 },
+  static: { particles: 1, speed: 0 },
+  ignore: { particles: 1, speed: 1 },
+};
+
+/** Motion for a mode, or full motion when the user has no preference. */
+export function motionScale(
+  mode: ReducedMotion,
+  prefersReduced: boolean,
+): MotionScale {
+  return MOTION_SCALES[prefersReduced ? mode : 'ignore'];
+}
+
+/** Fill in defaults; false / undefined turns the governor off. */
+export function resolveAdaptiveQuality(
+  options: boolean | AdaptiveQualityOptions | undefined,
+): Required<AdaptiveQualityOptions> | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  return {
+    targetFps: Math.max(1, o.targetFps ?? 50),
+    minParticles: Math.max(0, Math.min(1, o.minParticles ?? 0.25)),
+    minResolution: Math.max(0.1, Math.min(1, o.minResolution ?? 0.5)),
+  };
+}
+
+/** Frames further apart than this are stalls or hidden time, not load */
+export const MAX_FRAME_MS = 250;
+
+// Time between adjustments, and how much each one changes.
+const ADJUST_INTERVAL_MS = 1000;
+const PARTICLE_STEP = 0.8;
+const RESOLUTION_STEP = 0.85;
+
+// Frame time band around the budget that leaves quality alone.
+const OVER_BUDGET = 1.15;
+const UNDER_BUDGET = 0.85;
+
+// Weight of the newest frame in the frame time average.
+const FRAME_SMOOTHING = 0.1;
+
+export class QualityGovernor {
+  /** Share of the density's particles to show */
+  particleScale = 1;
+  /** WebGPU render resolution relative to the device's */
+  resolutionScale = 1;
+
+  private options: Required<AdaptiveQualityOptions>;
+  private frameTime = 0;
+  private sinceAdjust = 0;
+
+  constructor(options: Required<AdaptiveQualityOptions>) {
+    this.options = options;
+  }
+
+  /** Take one frame's interval (ms); true when the scales changed. */
+  update(elapsed: number): boolean {
+    if (elapsed <= 0 || elapsed > MAX_FRAME_MS) return false;
+    this.frameTime = this.frameTime
+      ? this.frameTime + (elapsed - this.frameTime) * FRAME_SMOOTHING
+      : elapsed;
+    this.sinceAdjust += elapsed;
+    if (this.sinceAdjust < ADJUST_INTERVAL_MS) return false;
+    this.sinceAdjust = 0;
+    const budget = 1000 / this.options.targetFps;
+    if (this.frameTime > budget * OVER_BUDGET) return this._lower();
+    if (this.frameTime < budget * UNDER_BUDGET) return this._raise();
+    return false;
+  }
+
+  private _lower(): boolean {
+    const { minParticles, minResolution } = this.options;
+    if (this.particleScale > minParticles) {
+      this.particleScale = Math.max(
+        minParticles,
+        this.particleScale * PARTICLE_STEP,
+      );
+      return true;
+    }
+    if (this.resolutionScale > minResolution) {
+      this.resolutionScale = Math.max(
+        minResolution,
+        this.resolutionScale * RESOLUTION_STEP,
+      );
+      return true;
+    }
+    return false;
+  }
+
+  private _raise(): boolean {
+    if (this.resolutionScale < 1) {
+      this.resolutionScale = Math.min(
+        1,
+        this.resolutionScale / RESOLUTION_STEP,
+      );
+      return true;
+    }
+    if (this.particleScale < 1) {
+      this.particleScale = Math.min(1, this.particleScale / PARTICLE_STEP);
+      return true;
+    }
+    return false;
+  }
+}
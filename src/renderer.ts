@@ -0,0 +1,245 @@
+/**
+ * One WebGPU renderer per map, shared by every snow layer on it.
+ *
+ * Each layer's WebGPU backend keeps its own compute passes and scene and
+ * draws them with the shared renderer, so several layers on a map use one
+ * GPU device and one canvas: an overlay on top of the map, or the offscreen
+ * canvas that composite.ts draws into the map. Layers with different
+ * `compositing` get one renderer each. Layers acquire the renderer in onAdd
+ * and release it when they are removed or drop WebGPU; the last release
+ * tears it down.
+ */
+import * as THREE from 'three/webgpu';
+import type { Map as MaplibreMap } from 'maplibre-gl';
+import { SnowLayerError } from './events';
+
+export function hasWebGPU(): boolean {
+  return !!(navigator as unknown as { gpu?: unknown }).gpu;
+}
+
+type DeviceLostListener = (error: SnowLayerError) => void;
+
+// Live renderers by map, keyed by whether they composite into the map.
+const renderers = new WeakMap<MaplibreMap, Map<boolean, SharedRenderer>>();
+
+export class SharedRenderer {
+  /** The canvas drawn into: the overlay's, or offscreen for compositing */
+  readonly canvas: HTMLCanvasElement;
+  readonly composite: boolean;
+  /** Resolves once the renderer is up; rejects with a SnowLayerError. */
+  readonly ready: Promise<THREE.WebGPURenderer>;
+
+  private map: MaplibreMap;
+  private renderer: THREE.WebGPURenderer | null = null;
+  private overlay: HTMLDivElement | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private users = 0;
+  private deviceLostListeners = new Set<DeviceLostListener>();
+  // Overlay: the first layer drawn in a map frame clears the canvas, and a
+  // frame that no layer drew in (all hidden) clears what was left on it.
+  private cleared = false;
+  private drawn = false;
+  // Render resolution relative to the device's, as asked for by each
+  // layer's adaptive quality; the lowest wins.
+  private resolutionScales = new Map<object, number>();
+  private resolutionScale = 1;
+  // Map compositing: colour and depth halves, each the size of MapLibre's
+  // drawing buffer times the resolution scale.
+  private _compositeWidth = 0;
+  private _compositeHeight = 0;
+
+  /** The map's renderer for this compositing mode, created on first use. */
+  static acquire(map: MaplibreMap, composite: boolean): SharedRenderer {
+    let byMode = renderers.get(map);
+    if (!byMode) {
+      byMode = new Map();
+      renderers.set(map, byMode);
+    }
+    let shared = byMode.get(composite);
+    if (!shared) {
+      shared = new SharedRenderer(map, composite);
+      byMode.set(composite, shared);
+    }
+    shared.users++;
+    return shared;
+  }
+
+  private constructor(map: MaplibreMap, composite: boolean) {
+    this.map = map;
+    this.composite = composite;
+    this.canvas = document.createElement('canvas');
+    if (!composite) this._createOverlay();
+    map.on('render', this._onRender);
+    this.ready = this._init();
+    // A renderer that failed to start is not handed out again.
+    this.ready.catch(() => this._forget());
+  }
+
+  get compositeWidth(): number {
+    return this._compositeWidth;
+  }
+
+  get compositeHeight(): number {
+    return this._compositeHeight;
+  }
+
+  /** Drop one layer's hold; the last one disposes the renderer. */
+  release(): void {
+    if (--this.users > 0) return;
+    this._forget();
+    this.map.off('render', this._onRender);
+    this.map.off('resize', this._onMapResize);
+    this.resizeObserver?.disconnect();
+    this.overlay?.remove();
+    this.renderer?.dispose();
+    this.resizeObserver = null;
+    this.overlay = null;
+    this.renderer = null;
+    this.deviceLostListeners.clear();
+  }
+
+  addDeviceLostListener(listener: DeviceLostListener): void {
+    this.deviceLostListeners.add(listener);
+  }
+
+  removeDeviceLostListener(listener: DeviceLostListener): void {
+    this.deviceLostListeners.delete(listener);
+  }
+
+  /**
+   * Set a layer's render resolution, relative to the device's; null
+   * withdraws it. The canvas follows the lowest one asked for.
+   */
+  setResolutionScale(owner: object, scale: number | null): void {
+    if (scale === null) this.resolutionScales.delete(owner);
+    else this.resolutionScales.set(owner, scale);
+    const lowest = Math.min(1, ...this.resolutionScales.values());
+    if (lowest === this.resolutionScale) return;
+    this.resolutionScale = lowest;
+    // Composited output is resized by the next setCompositeSize().
+    if (!this.composite) this._resize();
+  }
+
+  /** Overlay: draw a layer's scene over those drawn before it this frame. */
+  render(scene: THREE.Scene, camera: THREE.PerspectiveCamera): void {
+    const renderer = this.renderer;
+    if (!renderer) return;
+    if (!this.cleared) {
+      renderer.clear();
+      this.cleared = true;
+    }
+    renderer.render(scene, camera);
+    this.drawn = true;
+  }
+
+  /** Map compositing: match MapLibre's drawing buffer, in device pixels. */
+  setCompositeSize(width: number, height: number): void {
+    if (!this.renderer) return;
+    const w = Math.max(1, Math.round(width * this.resolutionScale));
+    const h = Math.max(1, Math.round(height * this.resolutionScale));
+    if (w === this._compositeWidth && h === this._compositeHeight) return;
+    this._compositeWidth = w;
+    this._compositeHeight = h;
+    this.renderer.setSize(w * 2, h);
+  }
+
+  private async _init(): Promise<THREE.WebGPURenderer> {
+    if (!hasWebGPU()) {
+      throw new SnowLayerError(
+        'webgpu-unsupported',
+        'WebGPU is not supported in this browser',
+      );
+    }
+
+    try {
+      const renderer = new THREE.WebGPURenderer({
+        canvas: this.canvas,
+        antialias: false,
+        alpha: true,
+      });
+      this.renderer = renderer;
+      renderer.setClearColor(0x000000, 0);
+      // Keep three's handler: it logs and stops the renderer drawing.
+      const onDeviceLost = renderer.onDeviceLost.bind(renderer);
+      renderer.onDeviceLost = (info) => {
+        onDeviceLost(info);
+        // Layers added from now on start a fresh renderer.
+        this._forget();
+        const error = new SnowLayerError(
+          'device-lost',
+          `WebGPU device lost: ${info.message}`,
+          info,
+        );
+        for (const listener of this.deviceLostListeners) listener(error);
+      };
+      // Composited output is sized in device pixels by setCompositeSize().
+      renderer.setPixelRatio(this.composite ? 1 : this.map.getPixelRatio());
+      // Layers share the canvas, so clearing is up to render() and the
+      // composited layers.
+      renderer.autoClear = false;
+      await renderer.init();
+      if (!this.composite) this._resize();
+      return renderer;
+    } catch (err) {
+      throw new SnowLayerError('init-failed', 'WebGPU init failed', err);
+    }
+  }
+
+  private _createOverlay(): void {
+    const container = this.map.getContainer();
+    container.style.position = 'relative';
+
+    this.overlay = document.createElement('div');
+    Object.assign(this.overlay.style, {
+      position: 'absolute',
+      top: '0',
+      left: '0',
+      width: '100%',
+      height: '100%',
+      pointerEvents: 'none',
+      zIndex: '10',
+    });
+    Object.assign(this.canvas.style, {
+      width: '100%',
+      height: '100%',
+      display: 'block',
+    });
+    this.overlay.appendChild(this.canvas);
+    container.appendChild(this.overlay);
+
+    this._resize();
+    this.resizeObserver = new ResizeObserver(() => this._resize());
+    this.resizeObserver.observe(container);
+    // The map's pixel ratio can change without the container resizing.
+    this.map.on('resize', this._onMapResize);
+  }
+
+  // Overlay canvas at the map container's size, in the map's pixels times
+  // the resolution scale.
+  private _resize(): void {
+    const container = this.map.getContainer();
+    const ratio = this.map.getPixelRatio() * this.resolutionScale;
+    this.canvas.width = container.clientWidth * ratio;
+    this.canvas.height = container.clientHeight * ratio;
+    this.renderer?.setPixelRatio(ratio);
+    this.renderer?.setSize(container.clientWidth, container.clientHeight);
+  }
+
+  // After the map drew its layers for the frame.
+  private _onRender = (): void => {
+    if (!this.cleared && this.drawn) {
+      this.renderer?.clear();
+      this.drawn = false;
+    }
+    this.cleared = false;
+  };
+
+  private _onMapResize = (): void => {
+    this._resize();
+  };
+
+  private _forget(): void {
+    const byMode = renderers.get(this.map);
+    if (byMode?.get(this.composite) === this) byMode.delete(this.composite);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Pieces shared by the WebGPU and WebGL2 particle backends.
+ */
+import type { AccumulationFrame } from './accumulation';
+import type { FlakeStyle, SpriteAtlas } from './appearance';
+import type { BoundsMask } from './bounds';
+import type { FieldTexture, WindFieldTexture } from './fields';
+import type { FogFrame } from './fog';
+import type { CameraMotion, PointerFrame } from './interaction';
+import type { GlowGrid } from './lighting';
+import type { PrecipitationProfile } from './precipitation';
+import type { DepthOfFieldOptions, FlakeSizeMode } from './sizing';
+import type { TerrainHeightmap } from './terrain';
+import type { GustOptions, TurbulenceOptions } from './turbulence';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_PARTICLE_COUNT = 8_000;
+export const MIN_PARTICLE_COUNT = 2_000;
+export const MAX_PARTICLE_COUNT = 20_000;
+
+/** Map a 0–1 density to a particle count. */
+export function particleCountForDensity(density: number): number {
+  return Math.round(
+    MIN_PARTICLE_COUNT +
+      Math.max(0, Math.min(1, density)) *
+        (MAX_PARTICLE_COUNT - MIN_PARTICLE_COUNT),
+  );
+}
+
+/**
+ * Both backends hold MAX_PARTICLE_COUNT particles and show them by index:
+ * particle i has alpha clamp((visibleCount - i) / band + 0.5, 0, 1).
+ * Density changes move the cut-off, fading particles in or out instead of
+ * reallocating the buffers. Only the drawCountFor() particles below the
+ * cut-off's band are simulated; the others spawn once it reaches them.
+ */
+export const DENSITY_FADE_BAND = 500;
+
+/** Particles worth drawing for a visible count: the cut-off plus its band. */
+export function drawCountFor(visibleCount: number): number {
+  return Math.min(
+    MAX_PARTICLE_COUNT,
+    Math.ceil(visibleCount + DENSITY_FADE_BAND / 2),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Simulation clock
+// ---------------------------------------------------------------------------
+
+/**
+ * The simulation advances in fixed steps of 1/SIM_FPS seconds, as many per
+ * frame as real time calls for; speeds handed to the backends are per step.
+ */
+export const SIM_FPS = 60;
+export const SIM_STEP_MS = 1000 / SIM_FPS;
+
+/** Steps run for one frame's elapsed time at most; the rest is dropped. */
+export const MAX_STEPS_PER_FRAME = 8;
+
+/** Seeded PRNG (mulberry32) returning numbers in [0, 1). */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Per-particle random streams: number k of particle i is the PCG hash of
+ * i + seed + k · MAX_PARTICLE_COUNT, so each k is independent of the others.
+ * Both backends pick a flake's appearance from the seven streams from
+ * FLAKE_STREAM (see appearance.ts), its flutter from the three from
+ * FLUTTER_STREAM (see turbulence.ts), and the intensity it shows from on
+ * SPAWN_STREAM (see fields.ts). SnowGPU also spawns particles from streams
+ * 0–3 (x, y, height and speed factor) and respawns them from two new ones
+ * per step, from RESPAWN_STREAM on.
+ */
+export const FLAKE_STREAM = 4;
+export const FLUTTER_STREAM = 11;
+export const SPAWN_STREAM = 14;
+export const RESPAWN_STREAM = 15;
+
+/**
+ * Number k of particle `index`'s streams, as above; `seed` is 32-bit. Rounded
+ * to float32 like the shaders' value, so the CPU and GPU agree exactly.
+ */
+export function particleRandom(index: number, seed: number, k: number): number {
+  const input = (index + seed + k * MAX_PARTICLE_COUNT) >>> 0;
+  const state = (Math.imul(input, 747796405) + 2891336453) >>> 0;
+  const word = Math.imul((state >>> ((state >>> 28) + 4)) ^ state, 277803737);
+  return Math.fround(((word >>> 22) ^ word) >>> 0) / 4294967296;
+}
+
+/** Linear blend from `a` at t = 0 to `b` at t = 1. */
+export function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+// ---------------------------------------------------------------------------
+// Mercator helpers (no maplibre-gl import needed)
+// ---------------------------------------------------------------------------
+
+const EARTH_CIRCUMFERENCE = 40_075_016.686;
+
+/** Mercator units per meter on the ground at the given latitude. */
+export function mercatorPerMeter(lat: number): number {
+  return 1 / (EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180));
+}
+
+export function lngLatToMercator(
+  lng: number,
+  lat: number,
+): { x: number; y: number } {
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: (lng + 180) / 360,
+    y: 0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI),
+  };
+}
+
+export function mercatorYToLat(y: number): number {
+  return (Math.atan(Math.sinh(Math.PI * (1 - 2 * y))) * 180) / Math.PI;
+}
+
+// ---------------------------------------------------------------------------
+// Backend contract
+// ---------------------------------------------------------------------------
+
+/**
+ * MapLibre's projection for one frame (the custom layer's
+ * defaultProjectionData). With the globe on, `mainMatrix` takes points on a
+ * unit sphere and `fallbackMatrix` mercator ones; `globe` blends between the
+ * two across MapLibre's globe-to-mercator transition zoom. Without the globe
+ * both matrices are the mercator one and `globe` is 0.
+ */
+export interface SnowProjection {
+  mainMatrix: Float32Array;
+  fallbackMatrix: Float32Array;
+  /** 0 = mercator, 1 = globe */
+  globe: number;
+  /** Plane through the globe's horizon; the far side lies below it */
+  clippingPlane: [number, number, number, number];
+  /** Clip-space w of the map centre, the unit of distance in sizing.ts */
+  cameraDistance: number;
+}
+
+/**
+ * What MaplibreSnowLayer needs from a particle backend. Both backends keep
+ * particles as (mercX, mercY, mercAlt) in mercator [0,1] space and are driven
+ * once per MapLibre frame from the layer's render() callback.
+ */
+export interface SnowBackend {
+  readonly ready: boolean;
+  /**
+   * View centre and width; pitch and bearing (degrees) shape the volume.
+   * `altSpan` is its height in mercator units, null for half its half span.
+   */
+  updateSpatial(
+    mercX: number,
+    mercY: number,
+    zoom: number,
+    canvasCSSWidth: number,
+    pitch: number,
+    bearing: number,
+    altSpan: number | null,
+  ): void;
+  updateFlakeRadiusPx(flakeSizePx: number): void;
+  /**
+   * Global wind in the layer's units per second (see units.ts), with the
+   * mercator units per unit; scaled by the precipitation profile's
+   * windFactor.
+   */
+  updateWind(
+    azimuthDeg: number,
+    speed: number,
+    mercPerUnit: number,
+    fps: number,
+  ): void;
+  /** Fall speed in the layer's units per second. */
+  updateFallSpeed(speed: number, mercPerUnit: number, fps: number): void;
+  updatePrecipitation(profile: PrecipitationProfile): void;
+  /** Sunlight tint for this frame (see lighting.ts). */
+  updateLight(color: [number, number, number]): void;
+  /** Fog for this frame (see fog.ts); null turns it off. */
+  updateFog(frame: FogFrame | null): void;
+  /** Ground cover for this frame; null turns accumulation off. */
+  updateAccumulation(frame: AccumulationFrame | null): void;
+  /** Camera motion to streak the flakes along; null while still or off. */
+  updateCameraMotion(motion: CameraMotion | null): void;
+  /** Pointer force field for this frame; null when off or away. */
+  updatePointer(pointer: PointerFrame | null): void;
+  /** Coverage slots as stored (see accumulation.ts), or null when off. */
+  readAccumulation(): Promise<Float32Array | null>;
+  /** Seed for the particle layout; takes effect from the next runInit(). */
+  setSeed(seed: number): void;
+  runInit(): void;
+  /** Advance the particles by whole SIM_STEP_MS steps. */
+  simulate(steps: number): void;
+  frame(projection: SnowProjection, cssWidth: number, cssHeight: number): void;
+  setDensity(density: number): void;
+  /** Share of the density's particles to show (adaptive quality, reduced motion). */
+  setParticleScale(scale: number): void;
+  setBoundsMask(mask: BoundsMask | null): void;
+  setIntensityField(field: FieldTexture | null): void;
+  setWindField(field: WindFieldTexture | null): void;
+  /** Eddies and flutter (see turbulence.ts); null turns them off. */
+  setTurbulence(turbulence: Required<TurbulenceOptions> | null): void;
+  /** Wind gusts over simulation time; null keeps the wind steady. */
+  setGusts(gusts: Required<GustOptions> | null): void;
+  /** Ground under the particles; null means flat sea level. */
+  setTerrain(heightmap: TerrainHeightmap | null): void;
+  /** Point-light glow around the view; null means no lights. */
+  setGlow(grid: GlowGrid | null): void;
+  setOpacity(value: number): void;
+  /** Flake shapes, size distribution, spin and tumble. */
+  setAppearance(style: FlakeStyle): void;
+  /** Sprite atlas drawn instead of the shapes; null goes back to them. */
+  setSprites(atlas: SpriteAtlas | null): void;
+  setSizeMode(mode: FlakeSizeMode): void;
+  setDepthOfField(options: Required<DepthOfFieldOptions> | null): void;
+  setColor(r: number, g: number, b: number): void;
+  setFogOpacity(value: number): void;
+  dispose(): void;
+}
@@ -0,0 +1,41 @@
+/**
+ * Flake size with distance: perspective sizing and depth of field.
+ *
+ * Both work on a particle's clip-space w, its distance from the camera
+ * along the view direction, relative to the w of the map centre
+ * (MapLibre's camera-to-centre distance). 1 is the map centre, 0.5 half way
+ * to the camera.
+ */
+
+/**
+ * How flakes are sized: 'pixels' keeps `flakeSize` in CSS pixels at any
+ * distance; 'perspective' gives it at the map centre's distance and scales
+ * flakes with 1 / distance, so nearer flakes are larger.
+ */
+export type FlakeSizeMode = 'pixels' | 'perspective';
+
+export interface DepthOfFieldOptions {
+  /** Distance in focus, relative to the map centre's (default: 1) */
+  focusDistance?: number;
+  /** Half width of the sharp band around the focus, same units (default: 0.25) */
+  focusRange?: number;
+  /** Blur in CSS pixels at full defocus (default: 6) */
+  maxBlur?: number;
+}
+
+/** Perspective scale limit, so flakes right at the camera stay bounded */
+export const PERSPECTIVE_MAX_SCALE = 8;
+
+/** Fill in defaults; false / undefined turns depth of field off. */
+export function resolveDepthOfField(
+  options: boolean | DepthOfFieldOptions | undefined,
+): Required<DepthOfFieldOptions> | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  const focusDistance = Math.max(0.01, o.focusDistance ?? 1);
+  return {
+    focusDistance,
+    focusRange: Math.max(0, Math.min(focusDistance, o.focusRange ?? 0.25)),
+    maxBlur: Math.max(0, o.maxBlur ?? 6),
+  };
+}
@@ -0,0 +1,1711 @@
+/**
+ * WebGL2 fallback backend.
+ *
+ * Draws the same georeferenced particles as the WebGPU backend, but straight
+ * into the WebGL2 context MapLibre passes to the custom layer, so no overlay
+ * canvas is needed. The simulation runs on the CPU (one pass over a
+ * Float32Array per frame) and the positions are re-uploaded as an instanced
+ * vertex attribute.
+ */
+import {
+  ACCUMULATION_SIZE,
+  accumulationSlot,
+  type AccumulationFrame,
+  type AccumulationWindow,
+} from './accumulation';
+import {
+  SIZE_CURVE_SAMPLES,
+  type FlakeStyle,
+  type SpriteAtlas,
+} from './appearance';
+import {
+  BOUNDS_MASK_SIZE,
+  sampleBoundsMask,
+  spawnRect,
+  volumeGrowth,
+  type BoundsMask,
+  type SpawnRect,
+  type VolumeGrowth,
+} from './bounds';
+import { SnowLayerError } from './events';
+import {
+  FIELD_MIN_FALL,
+  FIELD_TEXTURE_SIZE,
+  sampleField,
+  sampleWindField,
+  type FieldTexture,
+  type WindFieldTexture,
+} from './fields';
+import type { FogFrame } from './fog';
+import {
+  POINTER_RESPONSE,
+  pointerVelocity,
+  type CameraMotion,
+  type PointerFrame,
+} from './interaction';
+import { GLOW_GRID_SIZE, type GlowGrid } from './lighting';
+import type { PrecipitationProfile } from './precipitation';
+import {
+  DEFAULT_PARTICLE_COUNT,
+  DENSITY_FADE_BAND,
+  FLAKE_STREAM,
+  MAX_PARTICLE_COUNT,
+  SIM_FPS,
+  SPAWN_STREAM,
+  createRandom,
+  drawCountFor,
+  particleCountForDensity,
+  particleRandom,
+  type SnowBackend,
+  type SnowProjection,
+} from './shared';
+import {
+  PERSPECTIVE_MAX_SCALE,
+  type DepthOfFieldOptions,
+  type FlakeSizeMode,
+} from './sizing';
+import { sampleTerrain, type TerrainHeightmap } from './terrain';
+import {
+  EDDY_RESPONSE,
+  eddyVelocity,
+  flutterVelocity,
+  gustFactor,
+  turbulenceFrame,
+  type GustOptions,
+  type TurbulenceFrame,
+  type TurbulenceOptions,
+} from './turbulence';
+
+// ---------------------------------------------------------------------------
+// Shaders
+// ---------------------------------------------------------------------------
+
+// Mercator position and altitude to clip space, as SnowGPU's _project():
+// MapLibre's mercator matrix blended into its globe matrix (unit sphere) by
+// uGlobe, see SnowProjection.
+const PROJECTION_GLSL = `
+uniform mat4 uMainMatrix;
+uniform mat4 uFallbackMatrix;
+uniform float uGlobe;
+uniform vec4 uClippingPlane;
+
+const float PI = 3.141592653589793;
+
+// Raised radially by the altitude: merc units are metres /
+// (circumference * cos(lat)), so the radius grows by alt * 2PI * cos(lat).
+vec3 spherePosition(vec3 merc) {
+  float lng = merc.x * 2.0 * PI + PI;
+  float lat = 2.0 * atan(exp(PI - merc.y * 2.0 * PI)) - PI * 0.5;
+  float cosLat = cos(lat);
+  return vec3(sin(lng) * cosLat, sin(lat), cos(lng) * cosLat) *
+    (1.0 + merc.z * 2.0 * PI * cosLat);
+}
+
+vec4 project(vec3 merc) {
+  vec4 flatPos = uFallbackMatrix * vec4(merc, 1.0);
+  if (uGlobe <= 0.0) return flatPos;
+  vec4 globePos = uMainMatrix * vec4(spherePosition(merc), 1.0);
+  return mix(flatPos, globePos, uGlobe);
+}
+
+// On a globe, 0 behind the horizon and past the poles (the spawn box can
+// reach beyond mercator's 0-1 at low zoom).
+float globeVisibility(vec2 merc) {
+  if (uGlobe <= 0.0) return 1.0;
+  vec3 sphere = spherePosition(vec3(merc, 0.0));
+  float front = step(0.0, dot(sphere, uClippingPlane.xyz) + uClippingPlane.w);
+  float onMap = step(0.0, merc.y) * step(merc.y, 1.0);
+  return mix(1.0, front * onMap, uGlobe);
+}
+`;
+
+// Screen-space billboard, same maths as the TSL positionNode in SnowGPU:
+// project the particle centre (mercator or globe), find the
+// on-screen direction of travel, then offset the corner along/across it by
+// the flake radius converted from CSS pixels to NDC.
+const PARTICLE_VS = `#version 300 es
+layout(location = 0) in vec2 aCorner;
+layout(location = 1) in vec3 aPosition;
+${PROJECTION_GLSL}
+uniform vec2 uViewport;
+uniform float uRadiusPx;
+uniform float uStretch;
+// Global wind and fall speed in merc-units/frame, and the distance along the
+// normalised velocity used to find the on-screen direction.
+uniform vec2 uWind;
+uniform float uFallSpeed;
+uniform float uProbe;
+uniform sampler2D uBoundsMask;
+// Bounds mask origin (xy) and extent (z) in mercator units.
+uniform vec3 uBounds;
+uniform float uBoundsEnabled;
+// Particles fade out around this gl_InstanceID (see DENSITY_FADE_BAND).
+uniform float uVisibleCount;
+uniform sampler2D uField;
+// Intensity field origin (xy) and extent (zw) in mercator units.
+uniform vec4 uFieldRect;
+uniform float uFieldEnabled;
+uniform sampler2D uWindField;
+// Wind field origin (xy) and extent (zw); scale decodes RG to merc/frame.
+uniform vec4 uWindFieldRect;
+uniform float uWindFieldScale;
+uniform float uWindFieldEnabled;
+// Camera motion over the exposure (see interaction.ts): shift in CSS pixels
+// with y up, turn and zoom; uStreakMax = 0 turns the streaks off.
+uniform vec2 uCameraShift;
+uniform float uCameraTurn;
+uniform float uCameraZoom;
+uniform float uStreakMax;
+// Appearance (see appearance.ts); uTime is simulation time in seconds.
+uniform float uSizeCurve[${SIZE_CURVE_SAMPLES}];
+uniform float uSizeMax;
+uniform float uSpin;
+uniform float uTumble;
+uniform float uTime;
+uniform uint uSeed;
+// Sizing with distance (see sizing.ts), relative to uCameraDistance.
+uniform float uCameraDistance;
+uniform float uPerspective;
+uniform float uFocusDistance;
+uniform float uFocusRange;
+uniform float uMaxBlur;
+// Point-light glow grid (see lighting.ts): origin (xy) and extent (z) in
+// mercator units, and the lights' mean altitude and fade height.
+uniform sampler2D uGlow;
+uniform vec3 uGlowRect;
+uniform float uGlowBase;
+uniform float uGlowReach;
+uniform float uGlowEnabled;
+
+out vec2 vUv;
+out float vVisibility;
+out float vSpin;
+out float vTumble;
+out float vShapePick;
+out float vCellPick;
+out float vDefocus;
+out float vFocus;
+out vec3 vGlow;
+
+// Random stream k of this particle: particleRandom() in shared.ts (the PCG
+// hash of SnowGPU's stream()), with the instance as the particle.
+float particleRandom(uint k) {
+  uint state = (uint(gl_InstanceID) + uSeed + k * ${MAX_PARTICLE_COUNT}u) *
+    747796405u + 2891336453u;
+  uint word = ((state >> ((state >> 28u) + 4u)) ^ state) * 277803737u;
+  return float((word >> 22u) ^ word) / 4294967296.0;
+}
+
+// Appearance random number k, one stream per property (see FLAKE_STREAM).
+float flakeRandom(uint k) {
+  return particleRandom(${FLAKE_STREAM}u + k);
+}
+
+float sizeAt(float t) {
+  float i = t * ${SIZE_CURVE_SAMPLES - 1}.0;
+  int i0 = int(floor(i));
+  int i1 = min(i0 + 1, ${SIZE_CURVE_SAMPLES - 1});
+  return mix(uSizeCurve[i0], uSizeCurve[i1], fract(i)) * uSizeMax;
+}
+
+bool insideUnit(vec2 uv) {
+  return all(greaterThanEqual(uv, vec2(0.0))) &&
+    all(lessThanEqual(uv, vec2(1.0)));
+}
+
+vec2 windAt(vec2 pos) {
+  vec2 fieldUV = (pos - uWindFieldRect.xy) / uWindFieldRect.zw;
+  if (uWindFieldEnabled < 0.5 || !insideUnit(fieldUV)) return uWind;
+  vec2 encoded = texture(uWindField, fieldUV).rg;
+  // U is eastward (+mercX); V is northward, and mercY grows southward.
+  return vec2(encoded.x * 2.0 - 1.0, 1.0 - encoded.y * 2.0) * uWindFieldScale;
+}
+
+void main() {
+  vec4 clipCenter = project(aPosition);
+  vec2 ndcCenter = clipCenter.xy / clipCenter.w;
+  // A fixed step along the normalised velocity, since the per-frame delta is
+  // below float32 precision in mercator space.
+  vec3 velocity = vec3(windAt(aPosition.xy), -uFallSpeed);
+  vec3 probe = velocity / max(length(velocity), 1e-12) * uProbe;
+  vec4 ahead = project(aPosition + probe);
+  vec2 dirPx = (ahead.xy / ahead.w - ndcCenter) * uViewport;
+  vec2 along = normalize(dirPx + vec2(0.0, 1e-4));
+  // Perspective sizing scales by the map centre's w over the particle's.
+  // Depth of field grows the quad by the blur and draws the flake smaller
+  // inside it (focus = sharp radius / drawn radius), fading it out.
+  float viewDistance = clipCenter.w / uCameraDistance;
+  float perspective = mix(1.0,
+    min(1.0 / max(viewDistance, 1e-6), ${PERSPECTIVE_MAX_SCALE}.0), uPerspective);
+  float sharpRadius = uRadiusPx * sizeAt(flakeRandom(0u)) * perspective;
+  vDefocus = clamp((abs(viewDistance - uFocusDistance) - uFocusRange) /
+    max(uFocusDistance - uFocusRange, 1e-3), 0.0, 1.0) * step(1e-6, uMaxBlur);
+  float radius = sharpRadius + vDefocus * uMaxBlur;
+  vFocus = sharpRadius / max(radius, 1e-6);
+  // Camera motion at the flake's screen position, capped at uStreakMax. The
+  // flake is smeared along it in the same sense as its direction of travel,
+  // so the two add up.
+  vec2 screenPx = ndcCenter * uViewport * 0.5;
+  float turnCos = cos(uCameraTurn) - 1.0;
+  float turnSin = sin(uCameraTurn);
+  vec2 cameraMotion = uCameraShift + uCameraZoom * screenPx + vec2(
+    turnCos * screenPx.x - turnSin * screenPx.y,
+    turnSin * screenPx.x + turnCos * screenPx.y);
+  vec2 smear = cameraMotion *
+    min(1.0, uStreakMax / max(length(cameraMotion), 1e-6));
+  if (dot(smear, along) < 0.0) smear = -smear;
+  vec2 streak = along * radius * uStretch + smear * 0.5;
+  float streakLength = length(streak);
+  vec2 streakDir = streak / max(streakLength, 1e-6);
+  vec2 across = vec2(-streakDir.y, streakDir.x);
+  vec2 offsetPx = streakDir * aCorner.y * streakLength +
+    across * aCorner.x * radius;
+  vec2 ndc = ndcCenter + offsetPx * 2.0 / uViewport;
+  // Multiply back by w so particles behind the camera are clipped.
+  gl_Position = vec4(ndc * clipCenter.w, clipCenter.z, clipCenter.w);
+  vUv = aCorner * 0.5 + 0.5;
+  vSpin = flakeRandom(1u) * 2.0 * PI +
+    (flakeRandom(2u) * 2.0 - 1.0) * uSpin * uTime;
+  // Tumbling squeezes the flake across as it turns edge-on.
+  vTumble = max(abs(cos(flakeRandom(3u) * 2.0 * PI +
+    (flakeRandom(4u) * 0.5 + 0.5) * uTumble * uTime)), 0.15);
+  vShapePick = flakeRandom(5u);
+  vCellPick = flakeRandom(6u);
+
+  vec2 glowUV = (aPosition.xy - uGlowRect.xy) / uGlowRect.z;
+  vGlow = uGlowEnabled > 0.5 && insideUnit(glowUV)
+    ? texture(uGlow, glowUV).rgb *
+      (1.0 - smoothstep(0.0, uGlowReach, abs(aPosition.z - uGlowBase)))
+    : vec3(0.0);
+
+  float coverage = uBoundsEnabled > 0.5
+    ? texture(uBoundsMask, (aPosition.xy - uBounds.xy) / uBounds.z).r
+    : 1.0;
+  // Intensity field as spawn probability: a fixed random threshold per
+  // particle, so the visible density follows the field.
+  vec2 fieldUV = (aPosition.xy - uFieldRect.xy) / uFieldRect.zw;
+  bool inField = uFieldEnabled > 0.5 && insideUnit(fieldUV);
+  float intensity = inField ? texture(uField, fieldUV).r : 1.0;
+  float threshold = particleRandom(${SPAWN_STREAM}u);
+
+  float shown = clamp(
+    (uVisibleCount - float(gl_InstanceID)) / ${DENSITY_FADE_BAND.toFixed(1)} + 0.5,
+    0.0,
+    1.0
+  );
+  vVisibility = coverage * shown * step(threshold, intensity) *
+    globeVisibility(aPosition.xy);
+}
+`;
+
+// Built-in crystal shapes, as plateMask() and dendriteMask() in index.ts.
+const SHAPES_GLSL = `
+const float PI = 3.141592653589793;
+
+float plateMask(vec2 q) {
+  float hex = max(abs(q.y), max(abs(q.x * 0.866 + q.y * 0.5),
+    abs(q.x * 0.866 - q.y * 0.5)));
+  float outline = 1.0 - smoothstep(0.4, 0.44, hex);
+  float facet = 1.0 - smoothstep(0.0, 0.03, abs(hex - 0.28));
+  return outline * mix(0.7, 1.0, facet);
+}
+
+float dendriteMask(vec2 q) {
+  float r = length(q);
+  float sector = mod(atan(q.y, q.x) + 7.0 * PI / 6.0, PI / 3.0) - PI / 6.0;
+  float along = r * cos(sector);
+  float across = abs(r * sin(sector));
+  float arm = 1.0 - smoothstep(0.025, 0.045, across);
+  float node = fract(along * 5.0) / 5.0;
+  float branch = (1.0 - smoothstep(0.015, 0.035, abs(across - node * 1.2))) *
+    step(across, 0.22 * (1.0 - along * 2.0)) * step(0.1, along);
+  float core = 1.0 - smoothstep(0.06, 0.09, r);
+  return max(max(arm, branch), core) * (1.0 - smoothstep(0.44, 0.5, r));
+}
+`;
+
+const PARTICLE_FS = `#version 300 es
+precision highp float;
+
+uniform vec3 uColor;
+uniform float uOpacity;
+uniform float uSoftness;
+uniform float uTail;
+uniform float uAmbient;
+uniform float uCrystal;
+// Cumulative shares of discs and plates; the rest are dendrites.
+uniform vec2 uShapeMix;
+uniform sampler2D uSprites;
+uniform vec2 uSpriteGrid;
+uniform float uSpritesEnabled;
+uniform vec3 uLight;
+
+in vec2 vUv;
+in float vVisibility;
+in float vSpin;
+in float vTumble;
+in float vShapePick;
+in float vCellPick;
+in float vDefocus;
+in float vFocus;
+in vec3 vGlow;
+out vec4 fragColor;
+${SHAPES_GLSL}
+void main() {
+  float dist = distance(vUv, vec2(0.5));
+  // Out of focus the whole disc goes soft.
+  float softness = mix(uSoftness, 1.0, vDefocus);
+  float mask = 1.0 - smoothstep(0.5 - softness * 0.5, 0.5, dist);
+  float ndotl = 1.0 - smoothstep(0.0, 0.5, dist);
+  float brightness = uAmbient + ndotl * (1.0 - uAmbient);
+
+  // Crystal look, blended in by the profile's crystal: flake-local
+  // coordinates turned by the spin and squeezed by the tumble, then the
+  // picked shape or sprite cell.
+  vec2 centred = vUv - 0.5;
+  float c = cos(vSpin);
+  float s = sin(vSpin);
+  vec2 q = vec2(centred.x * c - centred.y * s, centred.x * s + centred.y * c);
+  q.x /= vTumble;
+  q /= vFocus;
+  float disc = 1.0 - smoothstep(0.5 - uSoftness * 0.5, 0.5, length(q));
+  float shaped = mix(
+    mix(disc, plateMask(q), step(uShapeMix.x, vShapePick)),
+    dendriteMask(q),
+    step(uShapeMix.y, vShapePick)
+  );
+  float cell = floor(vCellPick * uSpriteGrid.x * uSpriteGrid.y);
+  float row = floor(cell / uSpriteGrid.x);
+  vec2 cellOrigin = vec2(cell - row * uSpriteGrid.x, uSpriteGrid.y - 1.0 - row);
+  vec2 local = q + 0.5;
+  float inCell = step(0.0, local.x) * step(local.x, 1.0) *
+    step(0.0, local.y) * step(local.y, 1.0);
+  vec4 sprite = texture(uSprites, (cellOrigin + clamp(local, 0.0, 1.0)) /
+    uSpriteGrid);
+  float crystalMask = mix(shaped, sprite.a * inCell, uSpritesEnabled);
+  vec3 spriteColor = mix(vec3(1.0), sprite.rgb, uSpritesEnabled * uCrystal);
+  // Blurred flakes become soft discs, spreading the same light wider.
+  float flakeMask = mix(mix(mask, crystalMask, uCrystal), mask, vDefocus) *
+    vFocus * vFocus;
+
+  float alpha = flakeMask * mix(1.0, vUv.y, uTail) * vVisibility * uOpacity;
+  // Sunlight tints the flake; nearby point lights add their glow. MapLibre
+  // blends with premultiplied alpha.
+  fragColor = vec4(
+    uColor * brightness * spriteColor * (uLight + vGlow) * alpha,
+    alpha
+  );
+}
+`;
+
+// Ground cover: the accumulation window as a grid draped over the terrain.
+// Coverage slots are addressed toroidally and the texture repeats, so the
+// window UV only needs offsetting by the origin's slot.
+const GROUND_VS = `#version 300 es
+layout(location = 0) in vec3 aPosition;
+${PROJECTION_GLSL}
+// Window min corner (xy) and extent (z) in mercator units.
+uniform vec3 uWindow;
+
+out vec2 vWindowUV;
+out float vGlobeVisibility;
+
+void main() {
+  gl_Position = project(aPosition);
+  vWindowUV = (aPosition.xy - uWindow.xy) / uWindow.z;
+  vGlobeVisibility = globeVisibility(aPosition.xy);
+}
+`;
+
+const GROUND_FS = `#version 300 es
+precision highp float;
+
+uniform sampler2D uCoverage;
+uniform vec2 uSlot;
+uniform vec3 uColor;
+uniform vec3 uLight;
+uniform float uOpacity;
+
+in vec2 vWindowUV;
+in float vGlobeVisibility;
+out vec4 fragColor;
+
+void main() {
+  vec2 coverageUV = (vWindowUV * ${ACCUMULATION_SIZE}.0 + uSlot) /
+    ${ACCUMULATION_SIZE}.0;
+  // Fade out towards the window edge instead of cutting off.
+  vec2 edge = smoothstep(0.0, 0.1, vWindowUV) *
+    smoothstep(0.0, 0.1, 1.0 - vWindowUV);
+  float alpha = texture(uCoverage, coverageUV).r * edge.x * edge.y *
+    vGlobeVisibility * uOpacity;
+  fragColor = vec4(uColor * uLight * alpha, alpha);
+}
+`;
+
+// Ground grid segments per side
+const GROUND_SEGMENTS = 32;
+
+const FOG_VS = `#version 300 es
+layout(location = 0) in vec2 aCorner;
+
+void main() {
+  gl_Position = vec4(aCorner, 0.0, 1.0);
+}
+`;
+
+// Depth-based fog (see fog.ts): the view ray through each pixel, unprojected
+// into mercator offsets from the map centre, meets sea level.
+const FOG_FS = `#version 300 es
+precision highp float;
+
+uniform vec2 uDrawingBuffer;
+uniform mat4 uFogInverse;
+uniform vec4 uFogDepthRow;
+uniform float uCameraDistance;
+uniform vec3 uFogColor;
+uniform vec3 uLight;
+uniform float uFogStart;
+uniform float uFogEnd;
+uniform float uFogFalloff;
+uniform float uFogOpacity;
+
+out vec4 fragColor;
+
+void main() {
+  vec2 ndc = gl_FragCoord.xy / uDrawingBuffer * 2.0 - 1.0;
+  vec4 nearH = uFogInverse * vec4(ndc, -1.0, 1.0);
+  vec4 farH = uFogInverse * vec4(ndc, 1.0, 1.0);
+  vec3 near = nearH.xyz / nearH.w;
+  vec3 ray = farH.xyz / farH.w - near;
+
+  // Rays that miss sea level take the full fog distance; t is clamped so
+  // the sky stays finite.
+  float hit = step(ray.z, -1e-12);
+  float t = clamp(-near.z / min(ray.z, -1e-12), 0.0, 16.0);
+  float groundDistance =
+    dot(uFogDepthRow, vec4(near + ray * t, 1.0)) / uCameraDistance;
+  float fogDistance = mix(uFogEnd, min(groundDistance, uFogEnd), hit);
+  float height = max(fogDistance * ray.z / length(ray), 0.0);
+  float fog = smoothstep(uFogStart, uFogEnd, fogDistance) *
+    exp(-height * 0.6931472 / uFogFalloff);
+  float alpha = fog * uFogOpacity;
+  fragColor = vec4(uFogColor * uLight * alpha, alpha);
+}
+`;
+
+// ---------------------------------------------------------------------------
+// GL helpers
+// ---------------------------------------------------------------------------
+
+function compileShader(
+  gl: WebGL2RenderingContext,
+  type: number,
+  source: string,
+): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Failed to create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+}
+
+function createByteTexture(
+  gl: WebGL2RenderingContext,
+  wrap: number = gl.CLAMP_TO_EDGE,
+): WebGLTexture | null {
+  const tex = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, tex);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrap);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wrap);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+  return tex;
+}
+
+// Only call inside render(): MapLibre resets its cached state afterwards.
+function uploadByteTexture(
+  gl: WebGL2RenderingContext,
+  tex: WebGLTexture | null,
+  size: number,
+  channels: 1 | 2 | 4,
+  data: Uint8Array,
+): void {
+  gl.bindTexture(gl.TEXTURE_2D, tex);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    channels === 1 ? gl.R8 : channels === 2 ? gl.RG8 : gl.RGBA8,
+    size,
+    size,
+    0,
+    channels === 1 ? gl.RED : channels === 2 ? gl.RG : gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    data,
+  );
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
+
+export function createProgram(
+  gl: WebGL2RenderingContext,
+  vsSource: string,
+  fsSource: string,
+): WebGLProgram {
+  const vs = compileShader(gl, gl.VERTEX_SHADER, vsSource);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, fsSource);
+  const program = gl.createProgram();
+  if (!program) throw new Error('Failed to create program');
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  // Shaders are owned by the program once linked.
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`Program link failed: ${log}`);
+  }
+  return program;
+}
+
+// Uniform lookups are cached per program; getUniformLocation is not free and
+// we set every uniform every frame.
+const uniformCache = new WeakMap<
+  WebGLProgram,
+  Map<string, WebGLUniformLocation | null>
+>();
+
+export function uniformLocation(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  name: string,
+): WebGLUniformLocation | null {
+  let locations = uniformCache.get(program);
+  if (!locations) {
+    locations = new Map();
+    uniformCache.set(program, locations);
+  }
+  if (!locations.has(name)) {
+    locations.set(name, gl.getUniformLocation(program, name));
+  }
+  return locations.get(name) ?? null;
+}
+
+// Uniforms declared by PROJECTION_GLSL.
+function setProjectionUniforms(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  projection: SnowProjection,
+): void {
+  gl.uniformMatrix4fv(
+    uniformLocation(gl, program, 'uMainMatrix'),
+    false,
+    projection.mainMatrix,
+  );
+  gl.uniformMatrix4fv(
+    uniformLocation(gl, program, 'uFallbackMatrix'),
+    false,
+    projection.fallbackMatrix,
+  );
+  gl.uniform1f(uniformLocation(gl, program, 'uGlobe'), projection.globe);
+  gl.uniform4f(
+    uniformLocation(gl, program, 'uClippingPlane'),
+    ...projection.clippingPlane,
+  );
+}
+
+// Wrap a value outside [lo, hi] around into it.
+function wrap(value: number, lo: number, hi: number): number {
+  if (value >= lo && value <= hi) return value;
+  const span = hi - lo;
+  return span > 0 ? lo + ((((value - lo) % span) + span) % span) : lo;
+}
+
+// ---------------------------------------------------------------------------
+// WebGL2 Particle System
+// ---------------------------------------------------------------------------
+
+export class SnowGL implements SnowBackend {
+  private gl: WebGL2RenderingContext | null = null;
+  private particleProgram: WebGLProgram | null = null;
+  private fogProgram: WebGLProgram | null = null;
+  private groundProgram: WebGLProgram | null = null;
+  private particleVao: WebGLVertexArrayObject | null = null;
+  private fogVao: WebGLVertexArrayObject | null = null;
+  private groundVao: WebGLVertexArrayObject | null = null;
+  private groundBuffer: WebGLBuffer | null = null;
+  private groundIndexBuffer: WebGLBuffer | null = null;
+  private coverageTexture: WebGLTexture | null = null;
+  private cornerBuffer: WebGLBuffer | null = null;
+  private instanceBuffer: WebGLBuffer | null = null;
+  private spriteTexture: WebGLTexture | null = null;
+  private glowTexture: WebGLTexture | null = null;
+  private maskTexture: WebGLTexture | null = null;
+  private fieldTexture: WebGLTexture | null = null;
+  private windFieldTexture: WebGLTexture | null = null;
+
+  // Particle state (CPU side)
+  // positions: (mercX, mercY, mercAlt) per particle
+  // speeds: per-particle random [0, 1] picking the fall speed multiplier
+  // The arrays hold MAX_PARTICLE_COUNT; the density picks how many of them
+  // show (see DENSITY_FADE_BAND). liveCount particles from index 0 are
+  // simulated, the rest spawn when the density reaches them.
+  private particleCount = DEFAULT_PARTICLE_COUNT;
+  private particleScale = 1;
+  private visibleCount = DEFAULT_PARTICLE_COUNT;
+  private liveCount = 0;
+  private positions = new Float32Array(0);
+  private speeds = new Float32Array(0);
+  // drift: (x, y) eddy velocity per particle, easing towards the local
+  // eddies (vel.xy in the compute shader)
+  private drift = new Float32Array(0);
+  private velocity = [0, 0, 0];
+  // Spawn randomness, restarted from the seed by runInit(), and the seed of
+  // the appearance and flutter streams (see FLAKE_STREAM).
+  private seed = 0;
+  private random = createRandom(0);
+  private streamSeed = 0;
+
+  // Simulation parameters (updated every frame from render callback)
+  // Spawn rect: the view volume's footprint, clipped to the bounds' bbox
+  // when set. Particles leaving it wrap around.
+  private spawnMinX = 0.495;
+  private spawnMinY = 0.495;
+  private spawnMaxX = 0.505;
+  private spawnMaxY = 0.505;
+  // The volume now and as of the last step, to spread the particles when it
+  // grows (see volumeGrowth()).
+  private spawn: SpawnRect | null = null;
+  private stepRect: SpawnRect | null = null;
+  private stepAltSpan = 0;
+  private halfSpan = 0.005;
+  private altSpan = 0.0025;
+  private radiusPx = 4.0;
+  private fallSpeed = 0.0;
+  private windX = 0.0;
+  private windY = 0.0;
+  // Converts `direction` speed units to merc-units/frame (wind field).
+  private windPerFrame = 0.0;
+  // Turbulence and gusts (see turbulence.ts)
+  private turbulence: Required<TurbulenceOptions> | null = null;
+  private turbulenceFrame: TurbulenceFrame | null = null;
+  private gusts: Required<GustOptions> | null = null;
+  // Camera motion and the pointer (see interaction.ts)
+  private cameraMotion: CameraMotion | null = null;
+  private pointer: PointerFrame | null = null;
+
+  // Appearance
+  private opacity = 0.8;
+  private color: [number, number, number] = [1, 1, 1];
+
+  // Precipitation profile (blended by the layer while switching types)
+  private speedJitter = 0.5;
+  private windFactor = 1.0;
+  private sizeScale = 1.0;
+  private stretch = 1.0;
+  private softness = 0.16;
+  private tail = 0.0;
+  private ambient = 0.3;
+  private tint: [number, number, number] = [1, 1, 1];
+  private alpha = 1.0;
+  private fog: FogFrame | null = null;
+  private fogOpacity = 0.08;
+  // Appearance (see appearance.ts); simTime drives spin and tumble.
+  private crystal = 0.0;
+  private sizeCurve = new Float32Array(SIZE_CURVE_SAMPLES).fill(1);
+  private sizeMax = 1.0;
+  private shapeMix: [number, number] = [1, 1];
+  private spin = 0.0;
+  private tumble = 0.0;
+  private simTime = 0.0;
+  private sprites: SpriteAtlas | null = null;
+  // Sizing with distance (see sizing.ts).
+  private perspective = false;
+  private depthOfField: Required<DepthOfFieldOptions> | null = null;
+  private spritesDirty = false;
+
+  // Bounds mask; uploaded on the next frame, inside MapLibre's render pass.
+  private boundsMask: BoundsMask | null = null;
+  private maskDirty = false;
+
+  // Intensity field; same deferred upload as the bounds mask.
+  private intensityField: FieldTexture | null = null;
+  private fieldDirty = false;
+
+  // Wind field (RG-encoded U/V); same deferred upload.
+  private windField: WindFieldTexture | null = null;
+  private windFieldDirty = false;
+
+  // Terrain heightmap; only the CPU simulation reads it.
+  private terrain: TerrainHeightmap | null = null;
+
+  // Lighting (see lighting.ts): sun tint and point-light glow grid.
+  private light: [number, number, number] = [1, 1, 1];
+  private glow: GlowGrid | null = null;
+  private glowDirty = false;
+
+  // Ground cover (see accumulation.ts): coverage per slot, raised by
+  // landings in _step() and melted once per frame.
+  private accumFrame: AccumulationFrame | null = null;
+  private accumWindow: AccumulationWindow | null = null;
+  private coverage = new Float32Array(0);
+  private coverageBytes = new Uint8Array(0);
+  private coverageDirty = false;
+  private groundVertices = new Float32Array(
+    (GROUND_SEGMENTS + 1) * (GROUND_SEGMENTS + 1) * 3,
+  );
+
+  private initialized = false;
+
+  /** Throws a SnowLayerError when the programs or buffers fail. */
+  init(gl: WebGL2RenderingContext): void {
+    try {
+      this.gl = gl;
+      this.particleProgram = createProgram(gl, PARTICLE_VS, PARTICLE_FS);
+      this.fogProgram = createProgram(gl, FOG_VS, FOG_FS);
+      this.groundProgram = createProgram(gl, GROUND_VS, GROUND_FS);
+
+      // Unit quad as two triangles, shared by the flakes and the fog pass.
+      this.cornerBuffer = gl.createBuffer();
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]),
+        gl.STATIC_DRAW,
+      );
+      this.instanceBuffer = gl.createBuffer();
+
+      this.maskTexture = createByteTexture(gl);
+      this.fieldTexture = createByteTexture(gl);
+      this.windFieldTexture = createByteTexture(gl);
+      this.coverageTexture = createByteTexture(gl, gl.REPEAT);
+      this.spriteTexture = createByteTexture(gl);
+      this.glowTexture = createByteTexture(gl);
+      this.glowDirty = true;
+      this.maskDirty = true;
+      this.spritesDirty = true;
+      this.fieldDirty = true;
+      this.windFieldDirty = true;
+
+      this.particleVao = gl.createVertexArray();
+      gl.bindVertexArray(this.particleVao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+      gl.enableVertexAttribArray(0);
+      gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+      gl.enableVertexAttribArray(1);
+      gl.vertexAttribPointer(1, 3, gl.FLOAT, false, 0, 0);
+      gl.vertexAttribDivisor(1, 1);
+
+      this.fogVao = gl.createVertexArray();
+      gl.bindVertexArray(this.fogVao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+      gl.enableVertexAttribArray(0);
+      gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+      // Ground grid: positions are rewritten per frame, indices are fixed.
+      const g = GROUND_SEGMENTS;
+      const indices = new Uint16Array(g * g * 6);
+      for (let j = 0; j < g; j++) {
+        for (let i = 0; i < g; i++) {
+          const a = j * (g + 1) + i;
+          const b = a + g + 1;
+          indices.set([a, a + 1, b, b, a + 1, b + 1], (j * g + i) * 6);
+        }
+      }
+      this.groundBuffer = gl.createBuffer();
+      this.groundIndexBuffer = gl.createBuffer();
+      this.groundVao = gl.createVertexArray();
+      gl.bindVertexArray(this.groundVao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.groundBuffer);
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        this.groundVertices.byteLength,
+        gl.DYNAMIC_DRAW,
+      );
+      gl.enableVertexAttribArray(0);
+      gl.vertexAttribPointer(0, 3, gl.FLOAT, false, 0, 0);
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.groundIndexBuffer);
+      gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+
+      gl.bindVertexArray(null);
+      gl.bindBuffer(gl.ARRAY_BUFFER, null);
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, null);
+
+      this._allocateParticles();
+      this.initialized = true;
+    } catch (err) {
+      this.dispose();
+      throw new SnowLayerError('init-failed', 'WebGL2 init failed', err);
+    }
+  }
+
+  private _allocateParticles(): void {
+    const gl = this.gl;
+    if (!gl) return;
+    this.positions = new Float32Array(MAX_PARTICLE_COUNT * 3);
+    this.speeds = new Float32Array(MAX_PARTICLE_COUNT);
+    this.drift = new Float32Array(MAX_PARTICLE_COUNT * 2);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.positions.byteLength, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    this._initRan = false;
+  }
+
+  // -------------------------------------------------------------------------
+  // Simulation (CPU equivalent of computeInit / computeUpdate)
+  // -------------------------------------------------------------------------
+
+  private _initRan = false;
+  runInit(): void {
+    if (this._initRan || !this.initialized) return;
+    this.random = createRandom(this.seed);
+    // The particles spawn in simulate().
+    this.liveCount = 0;
+    this.simTime = 0;
+    this.stepRect = this.spawn;
+    this.stepAltSpan = this.altSpan;
+    this._initRan = true;
+  }
+
+  simulate(steps: number): void {
+    if (!this.initialized || !this._initRan) return;
+    for (let i = 0; i < steps; i++) {
+      this.simTime += 1 / SIM_FPS;
+      this._step(i === 0 ? this._takeGrowth() : null);
+      if (this.accumFrame) this._meltCoverage();
+    }
+    if (steps > 0) this.coverageDirty = true;
+    this._exposeParticles();
+  }
+
+  // Simulate only the particles that can show from the next step. Those
+  // the density reaches again after a drop have been standing still, so
+  // they spawn afresh, scattered through the volume.
+  private _exposeParticles(): void {
+    const count = drawCountFor(this.visibleCount);
+    const p = this.positions;
+    for (let i = this.liveCount; i < count; i++) {
+      const o = i * 3;
+      this._spawnXY(o);
+      p[o + 2] =
+        sampleTerrain(this.terrain, p[o]!, p[o + 1]!) +
+        this.random() * this.altSpan;
+      this.speeds[i] = this.random();
+      this.drift[i * 2] = 0;
+      this.drift[i * 2 + 1] = 0;
+    }
+    this.liveCount = count;
+  }
+
+  // Growth of the volume since the last step, if any.
+  private _takeGrowth(): VolumeGrowth | null {
+    const growth =
+      this.stepRect &&
+      this.spawn &&
+      volumeGrowth(this.stepRect, this.stepAltSpan, this.spawn, this.altSpan);
+    this.stepRect = this.spawn;
+    this.stepAltSpan = this.altSpan;
+    return growth;
+  }
+
+  private _step(growth: VolumeGrowth | null): void {
+    const p = this.positions;
+    const drift = this.drift;
+    const t = this.simTime;
+    const gust = this.gusts ? gustFactor(this.gusts, t) : 1;
+    const eddies = this.turbulenceFrame;
+    const pointer = this.pointer;
+    // Output of the velocity helpers, so the loop allocates nothing.
+    const v = this.velocity;
+    for (let i = 0; i < this.liveCount; i++) {
+      const o = i * 3;
+      const d = i * 2;
+      if (growth) {
+        const height =
+          p[o + 2]! - sampleTerrain(this.terrain, p[o]!, p[o + 1]!);
+        p[o] = growth.toX + (p[o]! - growth.fromX) * growth.scaleX;
+        p[o + 1] = growth.toY + (p[o + 1]! - growth.fromY) * growth.scaleY;
+        p[o + 2] =
+          sampleTerrain(this.terrain, p[o]!, p[o + 1]!) +
+          height * growth.scaleZ;
+      }
+      const speedMul = 1 - this.speedJitter * (1 - this.speeds[i]!);
+      // Light areas of the intensity field fall slower.
+      const fieldFall =
+        FIELD_MIN_FALL +
+        (1 - FIELD_MIN_FALL) *
+          sampleField(this.intensityField, p[o]!, p[o + 1]!);
+      let dx = this.windX * gust;
+      let dy = this.windY * gust;
+      if (sampleWindField(this.windField, p[o]!, p[o + 1]!, v)) {
+        dx = v[0]! * this.windPerFrame * gust;
+        dy = -v[1]! * this.windPerFrame * gust;
+      }
+      // Ease towards the local eddies; without turbulence, towards rest.
+      let eddyX = 0;
+      let eddyY = 0;
+      if (eddies) {
+        eddyVelocity(
+          (p[o]! - eddies.originX) / eddies.scale,
+          (p[o + 1]! - eddies.originY) / eddies.scale,
+          t,
+          v,
+        );
+        eddyX = v[0]! * eddies.speed;
+        eddyY = v[1]! * eddies.speed;
+        flutterVelocity(i, this.streamSeed, t, v);
+        dx += v[0]! * eddies.speed;
+        dy += v[1]! * eddies.speed;
+      }
+      // The pointer pushes, and the flake follows faster near it.
+      let response = EDDY_RESPONSE;
+      if (pointer) {
+        pointerVelocity(pointer, p[o]!, p[o + 1]!, v);
+        eddyX += v[0]!;
+        eddyY += v[1]!;
+        response += (POINTER_RESPONSE - EDDY_RESPONSE) * v[2]!;
+      }
+      drift[d] = drift[d]! + (eddyX - drift[d]!) * response;
+      drift[d + 1] = drift[d + 1]! + (eddyY - drift[d + 1]!) * response;
+      p[o] = p[o]! + dx + drift[d]!;
+      p[o + 1] = p[o + 1]! + dy + drift[d + 1]!;
+      p[o + 2] = p[o + 2]! - this.fallSpeed * speedMul * fieldFall;
+      // Same wrap-around and respawn rules as the compute shader.
+      p[o] = wrap(p[o]!, this.spawnMinX, this.spawnMaxX);
+      p[o + 1] = wrap(p[o + 1]!, this.spawnMinY, this.spawnMaxY);
+      const ground = sampleTerrain(this.terrain, p[o]!, p[o + 1]!);
+      if (p[o + 2]! > ground + this.altSpan) {
+        p[o + 2] = ground + wrap(p[o + 2]! - ground, 0, this.altSpan);
+      }
+      if (p[o + 2]! < ground) {
+        if (this.accumFrame) this._land(i, p[o]!, p[o + 1]!);
+        this._spawnXY(o);
+        p[o + 2] = sampleTerrain(this.terrain, p[o]!, p[o + 1]!) + this.altSpan;
+      }
+    }
+  }
+
+  // Add a landing to the ground cover, if the particle is visible (same
+  // rule as the vertex shader, with the bounds mask thresholded).
+  private _land(index: number, x: number, y: number): void {
+    const frame = this.accumFrame!;
+    const { texelSize, originX, originY } = frame.window;
+    const i = Math.floor(x / texelSize) - originX;
+    const j = Math.floor(y / texelSize) - originY;
+    const n = ACCUMULATION_SIZE;
+    if (i < 0 || j < 0 || i >= n || j >= n) return;
+    if (index > this.visibleCount) return;
+    if (this.boundsMask && sampleBoundsMask(this.boundsMask, x, y) < 0.5) {
+      return;
+    }
+    const threshold = particleRandom(index, this.streamSeed, SPAWN_STREAM);
+    if (threshold > sampleField(this.intensityField, x, y)) return;
+    const slot =
+      accumulationSlot(originY + j) * n + accumulationSlot(originX + i);
+    this.coverage[slot] = this.coverage[slot]! + frame.perHit;
+  }
+
+  // Melt and clamp every slot after a step's landings.
+  private _meltCoverage(): void {
+    const frame = this.accumFrame!;
+    const c = this.coverage;
+    for (let k = 0; k < c.length; k++) {
+      c[k] = Math.max(0, Math.min(frame.maxCoverage, c[k]! - frame.melt));
+    }
+  }
+
+  // Only call inside render().
+  private _uploadCoverage(gl: WebGL2RenderingContext): void {
+    if (!this.coverageDirty) return;
+    const c = this.coverage;
+    const bytes = this.coverageBytes;
+    for (let k = 0; k < c.length; k++) bytes[k] = Math.round(c[k]! * 255);
+    uploadByteTexture(gl, this.coverageTexture, ACCUMULATION_SIZE, 1, bytes);
+    this.coverageDirty = false;
+  }
+
+  private _drawGround(
+    gl: WebGL2RenderingContext,
+    projection: SnowProjection,
+  ): void {
+    const { texelSize, originX, originY } = this.accumFrame!.window;
+    const size = texelSize * ACCUMULATION_SIZE;
+    const minX = originX * texelSize;
+    const minY = originY * texelSize;
+    const g = GROUND_SEGMENTS;
+    const v = this.groundVertices;
+    for (let j = 0; j <= g; j++) {
+      for (let i = 0; i <= g; i++) {
+        const o = (j * (g + 1) + i) * 3;
+        const x = minX + (i / g) * size;
+        const y = minY + (j / g) * size;
+        v[o] = x;
+        v[o + 1] = y;
+        v[o + 2] = sampleTerrain(this.terrain, x, y);
+      }
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.groundBuffer);
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, v);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+
+    const program = this.groundProgram!;
+    gl.useProgram(program);
+    setProjectionUniforms(gl, program, projection);
+    gl.uniform3f(uniformLocation(gl, program, 'uWindow'), minX, minY, size);
+    gl.uniform2f(
+      uniformLocation(gl, program, 'uSlot'),
+      accumulationSlot(originX),
+      accumulationSlot(originY),
+    );
+    gl.uniform3f(uniformLocation(gl, program, 'uColor'), ...this.color);
+    gl.uniform3f(uniformLocation(gl, program, 'uLight'), ...this.light);
+    gl.uniform1f(uniformLocation(gl, program, 'uOpacity'), this.opacity);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.coverageTexture);
+    gl.uniform1i(uniformLocation(gl, program, 'uCoverage'), 0);
+    gl.bindVertexArray(this.groundVao);
+    gl.drawElements(gl.TRIANGLES, g * g * 6, gl.UNSIGNED_SHORT, 0);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  private _spawnXY(offset: number): void {
+    this.positions[offset] =
+      this.spawnMinX + this.random() * (this.spawnMaxX - this.spawnMinX);
+    this.positions[offset + 1] =
+      this.spawnMinY + this.random() * (this.spawnMaxY - this.spawnMinY);
+  }
+
+  private _uploadTextures(gl: WebGL2RenderingContext): void {
+    if (this.maskDirty) {
+      const n = BOUNDS_MASK_SIZE;
+      const data = this.boundsMask?.data ?? new Uint8Array(n * n);
+      uploadByteTexture(gl, this.maskTexture, n, 1, data);
+      this.maskDirty = false;
+    }
+    if (this.fieldDirty) {
+      const n = FIELD_TEXTURE_SIZE;
+      const data = this.intensityField?.data ?? new Uint8Array(n * n);
+      uploadByteTexture(gl, this.fieldTexture, n, 1, data);
+      this.fieldDirty = false;
+    }
+    if (this.windFieldDirty) {
+      const n = FIELD_TEXTURE_SIZE;
+      const data = this.windField?.data ?? new Uint8Array(n * n * 2);
+      uploadByteTexture(gl, this.windFieldTexture, n, 2, data);
+      this.windFieldDirty = false;
+    }
+    if (this.glowDirty) {
+      const n = GLOW_GRID_SIZE;
+      const data = this.glow?.data ?? new Uint8Array(n * n * 4);
+      uploadByteTexture(gl, this.glowTexture, n, 4, data);
+      this.glowDirty = false;
+    }
+    if (this.spritesDirty) {
+      this._uploadSprites(gl);
+      this.spritesDirty = false;
+    }
+  }
+
+  private _uploadSprites(gl: WebGL2RenderingContext): void {
+    const image = this.sprites?.image;
+    gl.bindTexture(gl.TEXTURE_2D, this.spriteTexture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    // Already flipped by loadSprites().
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    if (image) {
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA8,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        image,
+      );
+      gl.generateMipmap(gl.TEXTURE_2D);
+      gl.texParameteri(
+        gl.TEXTURE_2D,
+        gl.TEXTURE_MIN_FILTER,
+        gl.LINEAR_MIPMAP_LINEAR,
+      );
+    } else {
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA8,
+        1,
+        1,
+        0,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        new Uint8Array(4),
+      );
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    }
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  // -------------------------------------------------------------------------
+  // Called by MaplibreSnowLayer.render() every frame
+  // -------------------------------------------------------------------------
+
+  frame(projection: SnowProjection, cssWidth: number, cssHeight: number): void {
+    const gl = this.gl;
+    if (!gl || !this.initialized || !this._initRan) return;
+
+    this._uploadTextures(gl);
+
+    // Upload and draw only the particles that can be visible.
+    const drawCount = drawCountFor(this.visibleCount);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferSubData(
+      gl.ARRAY_BUFFER,
+      0,
+      this.positions.subarray(0, drawCount * 3),
+    );
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.STENCIL_TEST);
+    gl.disable(gl.CULL_FACE);
+    gl.depthMask(false);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    if (this.accumFrame) {
+      this._uploadCoverage(gl);
+      this._drawGround(gl, projection);
+    }
+
+    const particleProgram = this.particleProgram!;
+    gl.useProgram(particleProgram);
+    setProjectionUniforms(gl, particleProgram, projection);
+    gl.uniform2f(
+      uniformLocation(gl, particleProgram, 'uViewport'),
+      cssWidth,
+      cssHeight,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uRadiusPx'),
+      this.radiusPx * this.sizeScale,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uStretch'),
+      this.stretch,
+    );
+    gl.uniform2f(
+      uniformLocation(gl, particleProgram, 'uWind'),
+      this.windX,
+      this.windY,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uFallSpeed'),
+      this.fallSpeed,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uProbe'),
+      this.halfSpan * 0.01,
+    );
+    const motion = this.cameraMotion;
+    gl.uniform2f(
+      uniformLocation(gl, particleProgram, 'uCameraShift'),
+      motion?.shiftX ?? 0,
+      motion?.shiftY ?? 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uCameraTurn'),
+      motion?.turn ?? 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uCameraZoom'),
+      motion?.zoom ?? 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uStreakMax'),
+      motion?.maxLength ?? 0,
+    );
+    gl.uniform3f(
+      uniformLocation(gl, particleProgram, 'uColor'),
+      this.color[0] * this.tint[0],
+      this.color[1] * this.tint[1],
+      this.color[2] * this.tint[2],
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uOpacity'),
+      this.opacity * this.alpha,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uSoftness'),
+      this.softness,
+    );
+    gl.uniform1f(uniformLocation(gl, particleProgram, 'uTail'), this.tail);
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uAmbient'),
+      this.ambient,
+    );
+    const mask = this.boundsMask;
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.maskTexture);
+    gl.uniform1i(uniformLocation(gl, particleProgram, 'uBoundsMask'), 0);
+    gl.uniform3f(
+      uniformLocation(gl, particleProgram, 'uBounds'),
+      mask?.minX ?? 0,
+      mask?.minY ?? 0,
+      mask?.size ?? 1,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uBoundsEnabled'),
+      mask ? 1 : 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uVisibleCount'),
+      this.visibleCount,
+    );
+    const field = this.intensityField;
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.fieldTexture);
+    gl.uniform1i(uniformLocation(gl, particleProgram, 'uField'), 1);
+    gl.uniform4f(
+      uniformLocation(gl, particleProgram, 'uFieldRect'),
+      field?.minX ?? 0,
+      field?.minY ?? 0,
+      field?.sizeX ?? 1,
+      field?.sizeY ?? 1,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uFieldEnabled'),
+      field ? 1 : 0,
+    );
+    const windField = this.windField;
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, this.windFieldTexture);
+    gl.uniform1i(uniformLocation(gl, particleProgram, 'uWindField'), 2);
+    gl.uniform4f(
+      uniformLocation(gl, particleProgram, 'uWindFieldRect'),
+      windField?.minX ?? 0,
+      windField?.minY ?? 0,
+      windField?.sizeX ?? 1,
+      windField?.sizeY ?? 1,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uWindFieldScale'),
+      (windField?.scale ?? 0) * this.windPerFrame,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uWindFieldEnabled'),
+      windField ? 1 : 0,
+    );
+    gl.uniform1fv(
+      uniformLocation(gl, particleProgram, 'uSizeCurve'),
+      this.sizeCurve,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uSizeMax'),
+      this.sizeMax,
+    );
+    gl.uniform1f(uniformLocation(gl, particleProgram, 'uSpin'), this.spin);
+    gl.uniform1f(uniformLocation(gl, particleProgram, 'uTumble'), this.tumble);
+    gl.uniform1f(uniformLocation(gl, particleProgram, 'uTime'), this.simTime);
+    gl.uniform1ui(
+      uniformLocation(gl, particleProgram, 'uSeed'),
+      this.streamSeed,
+    );
+    const dof = this.depthOfField;
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uCameraDistance'),
+      projection.cameraDistance,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uPerspective'),
+      this.perspective ? 1 : 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uFocusDistance'),
+      dof?.focusDistance ?? 1,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uFocusRange'),
+      dof?.focusRange ?? 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uMaxBlur'),
+      dof?.maxBlur ?? 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uCrystal'),
+      this.crystal,
+    );
+    gl.uniform2f(
+      uniformLocation(gl, particleProgram, 'uShapeMix'),
+      this.shapeMix[0],
+      this.shapeMix[1],
+    );
+    const sprites = this.sprites;
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, this.spriteTexture);
+    gl.uniform1i(uniformLocation(gl, particleProgram, 'uSprites'), 3);
+    gl.uniform2f(
+      uniformLocation(gl, particleProgram, 'uSpriteGrid'),
+      sprites?.columns ?? 1,
+      sprites?.rows ?? 1,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uSpritesEnabled'),
+      sprites ? 1 : 0,
+    );
+    gl.uniform3f(uniformLocation(gl, particleProgram, 'uLight'), ...this.light);
+    const glow = this.glow;
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, this.glowTexture);
+    gl.uniform1i(uniformLocation(gl, particleProgram, 'uGlow'), 4);
+    gl.uniform3f(
+      uniformLocation(gl, particleProgram, 'uGlowRect'),
+      glow?.minX ?? 0,
+      glow?.minY ?? 0,
+      glow?.size ?? 1,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uGlowBase'),
+      glow?.base ?? 0,
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uGlowReach'),
+      Math.max(glow?.reach ?? 1, 1e-12),
+    );
+    gl.uniform1f(
+      uniformLocation(gl, particleProgram, 'uGlowEnabled'),
+      glow ? 1 : 0,
+    );
+    // Flakes are tested against the map's depth, so buildings and terrain
+    // drawn earlier in the style hide the ones behind them.
+    gl.enable(gl.DEPTH_TEST);
+    gl.depthFunc(gl.LEQUAL);
+    gl.bindVertexArray(this.particleVao);
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, drawCount);
+    gl.disable(gl.DEPTH_TEST);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    const fog = this.fog;
+    if (fog) {
+      const fogProgram = this.fogProgram!;
+      gl.useProgram(fogProgram);
+      gl.uniform2f(
+        uniformLocation(gl, fogProgram, 'uDrawingBuffer'),
+        gl.drawingBufferWidth,
+        gl.drawingBufferHeight,
+      );
+      gl.uniformMatrix4fv(
+        uniformLocation(gl, fogProgram, 'uFogInverse'),
+        false,
+        fog.inverseMatrix,
+      );
+      gl.uniform4f(
+        uniformLocation(gl, fogProgram, 'uFogDepthRow'),
+        ...fog.depthRow,
+      );
+      gl.uniform1f(
+        uniformLocation(gl, fogProgram, 'uCameraDistance'),
+        projection.cameraDistance,
+      );
+      gl.uniform3f(uniformLocation(gl, fogProgram, 'uFogColor'), ...fog.color);
+      gl.uniform3f(uniformLocation(gl, fogProgram, 'uLight'), ...this.light);
+      gl.uniform1f(uniformLocation(gl, fogProgram, 'uFogStart'), fog.start);
+      gl.uniform1f(uniformLocation(gl, fogProgram, 'uFogEnd'), fog.end);
+      gl.uniform1f(
+        uniformLocation(gl, fogProgram, 'uFogFalloff'),
+        fog.heightFalloff,
+      );
+      gl.uniform1f(
+        uniformLocation(gl, fogProgram, 'uFogOpacity'),
+        this.fogOpacity,
+      );
+      gl.bindVertexArray(this.fogVao);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+    }
+
+    gl.bindVertexArray(null);
+  }
+
+  // -------------------------------------------------------------------------
+  // Uniform updates (called from MaplibreSnowLayer)
+  // -------------------------------------------------------------------------
+
+  updateSpatial(
+    mercX: number,
+    mercY: number,
+    zoom: number,
+    canvasCSSWidth: number,
+    pitch: number,
+    bearing: number,
+    altSpan: number | null,
+  ): void {
+    const pxToMerc = 1 / (512 * Math.pow(2, zoom));
+    this.halfSpan = canvasCSSWidth * pxToMerc * 1.2;
+    this.altSpan = altSpan ?? this.halfSpan * 0.5;
+    const rect = spawnRect(
+      mercX,
+      mercY,
+      this.halfSpan,
+      pitch,
+      bearing,
+      this.boundsMask,
+    );
+    this.spawn = rect;
+    this.spawnMinX = rect.minX;
+    this.spawnMinY = rect.minY;
+    this.spawnMaxX = rect.maxX;
+    this.spawnMaxY = rect.maxY;
+    this.visibleCount = Math.min(
+      MAX_PARTICLE_COUNT,
+      rect.fraction * this.particleCount * this.particleScale,
+    );
+  }
+
+  updateFlakeRadiusPx(flakeSizePx: number): void {
+    this.radiusPx = flakeSizePx;
+  }
+
+  updateWind(
+    azimuthDeg: number,
+    speed: number,
+    mercPerUnit: number,
+    fps: number,
+  ): void {
+    const azRad = (azimuthDeg * Math.PI) / 180;
+    this.windPerFrame = (mercPerUnit / fps) * this.windFactor;
+    const mercSpeedPerFrame = speed * this.windPerFrame;
+    this.windX = Math.sin(azRad) * mercSpeedPerFrame;
+    this.windY = Math.cos(azRad) * mercSpeedPerFrame;
+    this.turbulenceFrame =
+      this.turbulence &&
+      this.spawn &&
+      turbulenceFrame(
+        this.turbulence,
+        this.spawn.minX,
+        this.spawn.minY,
+        mercPerUnit,
+        this.windPerFrame,
+      );
+  }
+
+  setTurbulence(turbulence: Required<TurbulenceOptions> | null): void {
+    this.turbulence = turbulence;
+  }
+
+  setGusts(gusts: Required<GustOptions> | null): void {
+    this.gusts = gusts;
+  }
+
+  updateCameraMotion(motion: CameraMotion | null): void {
+    this.cameraMotion = motion;
+  }
+
+  updatePointer(pointer: PointerFrame | null): void {
+    this.pointer = pointer;
+  }
+
+  updateFallSpeed(speed: number, mercPerUnit: number, fps: number): void {
+    this.fallSpeed = (speed * mercPerUnit) / fps;
+  }
+
+  updatePrecipitation(profile: PrecipitationProfile): void {
+    this.speedJitter = profile.speedJitter;
+    this.windFactor = profile.windFactor;
+    this.sizeScale = profile.size;
+    this.stretch = profile.stretch;
+    this.softness = profile.softness;
+    this.tail = profile.tail;
+    this.ambient = profile.ambient;
+    this.tint = profile.color;
+    this.alpha = profile.alpha;
+    this.crystal = profile.crystal;
+  }
+
+  updateLight(color: [number, number, number]): void {
+    this.light = color;
+  }
+
+  updateFog(frame: FogFrame | null): void {
+    this.fog = frame;
+  }
+
+  // -------------------------------------------------------------------------
+  // Public API setters
+  // -------------------------------------------------------------------------
+
+  // Takes effect from the next updateSpatial(); particles fade in or out.
+  setDensity(density: number): void {
+    this.particleCount = particleCountForDensity(density);
+  }
+
+  setParticleScale(scale: number): void {
+    this.particleScale = Math.max(0, Math.min(1, scale));
+  }
+
+  setSeed(seed: number): void {
+    this.seed = seed;
+    // Scrambled as in SnowGPU, so that nearby seeds look unrelated.
+    this.streamSeed = Math.floor(createRandom(seed)() * 2 ** 32);
+    this._initRan = false;
+  }
+
+  setBoundsMask(mask: BoundsMask | null): void {
+    this.boundsMask = mask;
+    this.maskDirty = true;
+  }
+
+  setIntensityField(field: FieldTexture | null): void {
+    this.intensityField = field;
+    this.fieldDirty = true;
+  }
+
+  setWindField(field: WindFieldTexture | null): void {
+    this.windField = field;
+    this.windFieldDirty = true;
+  }
+
+  updateAccumulation(frame: AccumulationFrame | null): void {
+    this.accumFrame = frame;
+    if (!frame) {
+      this.accumWindow = null;
+      this.coverage = new Float32Array(0);
+      this.coverageBytes = new Uint8Array(0);
+      return;
+    }
+    const n = ACCUMULATION_SIZE;
+    const { window } = frame;
+    const prev = this.accumWindow;
+    this.accumWindow = window;
+    this.coverageDirty = true;
+    if (
+      frame.clear ||
+      !prev ||
+      prev.texelSize !== window.texelSize ||
+      this.coverage.length !== n * n
+    ) {
+      this.coverage = new Float32Array(n * n);
+      this.coverageBytes = new Uint8Array(n * n);
+      return;
+    }
+    // Clear the columns and rows whose slots wrapped to the opposite edge:
+    // the world texel they hold now differs from the one they held before.
+    const stale = (s: number, origin: number, prevOrigin: number) =>
+      accumulationSlot(s - origin) - accumulationSlot(s - prevOrigin) !==
+      prevOrigin - origin;
+    for (let s = 0; s < n; s++) {
+      if (stale(s, window.originX, prev.originX)) {
+        for (let j = 0; j < n; j++) this.coverage[j * n + s] = 0;
+      }
+      if (stale(s, window.originY, prev.originY)) {
+        this.coverage.fill(0, s * n, (s + 1) * n);
+      }
+    }
+  }
+
+  async readAccumulation(): Promise<Float32Array | null> {
+    return this.accumFrame ? this.coverage.slice() : null;
+  }
+
+  setTerrain(heightmap: TerrainHeightmap | null): void {
+    this.terrain = heightmap;
+  }
+
+  setGlow(grid: GlowGrid | null): void {
+    this.glow = grid;
+    this.glowDirty = true;
+  }
+
+  setOpacity(value: number): void {
+    this.opacity = Math.max(0, Math.min(1, value));
+  }
+
+  setAppearance(style: FlakeStyle): void {
+    this.sizeCurve = Float32Array.from(style.sizeCurve, (v) => v / 255);
+    this.sizeMax = style.sizeMax;
+    this.shapeMix = [style.shapeMix[0], style.shapeMix[1]];
+    this.spin = style.spin;
+    this.tumble = style.tumble;
+  }
+
+  setSprites(atlas: SpriteAtlas | null): void {
+    this.sprites = atlas;
+    this.spritesDirty = true;
+  }
+
+  setSizeMode(mode: FlakeSizeMode): void {
+    this.perspective = mode === 'perspective';
+  }
+
+  setDepthOfField(options: Required<DepthOfFieldOptions> | null): void {
+    this.depthOfField = options;
+  }
+
+  setColor(r: number, g: number, b: number): void {
+    this.color = [r, g, b];
+  }
+
+  setFogOpacity(value: number): void {
+    this.fogOpacity = Math.max(0, Math.min(1, value));
+  }
+
+  dispose(): void {
+    const gl = this.gl;
+    if (gl) {
+      gl.deleteProgram(this.particleProgram);
+      gl.deleteProgram(this.fogProgram);
+      gl.deleteProgram(this.groundProgram);
+      gl.deleteVertexArray(this.groundVao);
+      gl.deleteBuffer(this.groundBuffer);
+      gl.deleteBuffer(this.groundIndexBuffer);
+      gl.deleteTexture(this.coverageTexture);
+      gl.deleteVertexArray(this.particleVao);
+      gl.deleteVertexArray(this.fogVao);
+      gl.deleteBuffer(this.cornerBuffer);
+      gl.deleteBuffer(this.instanceBuffer);
+      gl.deleteTexture(this.spriteTexture);
+      gl.deleteTexture(this.glowTexture);
+      gl.deleteTexture(this.maskTexture);
+      gl.deleteTexture(this.fieldTexture);
+      gl.deleteTexture(this.windFieldTexture);
+    }
+    this.particleProgram = null;
+    this.fogProgram = null;
+    this.groundProgram = null;
+    this.groundVao = null;
+    this.groundBuffer = null;
+    this.groundIndexBuffer = null;
+    this.coverageTexture = null;
+    this.particleVao = null;
+    this.fogVao = null;
+    this.cornerBuffer = null;
+    this.instanceBuffer = null;
+    this.spriteTexture = null;
+    this.glowTexture = null;
+    this.maskTexture = null;
+    this.fieldTexture = null;
+    this.windFieldTexture = null;
+    this.gl = null;
+    this.initialized = false;
+  }
+
+  get ready(): boolean {
+    return this.initialized;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Ground height under the particle volume when MapLibre 3D terrain is on.
+ *
+ * The terrain elevation is sampled on a coarse grid around the volume's
+ * footprint and handed to the backends as an 8-bit heightmap, normalised
+ * between the lowest and highest sample, in mercator altitude units. Each
+ * sample is a MapLibre elevation query, so the grid is kept small and only
+ * re-sampled once the footprint leaves it.
+ */
+import type { SpawnRect } from './bounds';
+import { mercatorPerMeter, mercatorYToLat } from './shared';
+
+/** Heightmap resolution (samples per side) */
+export const TERRAIN_GRID_SIZE = 32;
+
+/** Minimum time between re-samples while DEM tiles are still arriving */
+export const TERRAIN_REFRESH_MS = 250;
+
+/** Heightmap extent relative to the footprint, so pans stay covered */
+const TERRAIN_COVERAGE = 2;
+
+export interface TerrainHeightmap {
+  /** Mercator origin of the square grid */
+  minX: number;
+  minY: number;
+  /** Side length in mercator units */
+  size: number;
+  /** Altitude at texel value 0 and the span up to 255, mercator units */
+  base: number;
+  range: number;
+  /** TERRAIN_GRID_SIZE² values, row 0 at minY */
+  data: Uint8Array;
+}
+
+/** Elevation in meters at a lng/lat, or null when unknown */
+export type ElevationQuery = (lng: number, lat: number) => number | null;
+
+// Longer side of a footprint, mercator units.
+function footprintExtent(rect: SpawnRect): number {
+  return Math.max(rect.maxX - rect.minX, rect.maxY - rect.minY);
+}
+
+/**
+ * Sample the terrain around the particle volume's footprint. Unknown
+ * samples (e.g. tiles not loaded yet) count as sea level.
+ */
+export function buildTerrainHeightmap(
+  query: ElevationQuery,
+  rect: SpawnRect,
+): TerrainHeightmap {
+  const n = TERRAIN_GRID_SIZE;
+  const size = footprintExtent(rect) * TERRAIN_COVERAGE;
+  const minX = (rect.minX + rect.maxX - size) / 2;
+  const minY = (rect.minY + rect.maxY - size) / 2;
+  const heights = new Float32Array(n * n);
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let j = 0; j < n; j++) {
+    const lat = mercatorYToLat(minY + ((j + 0.5) / n) * size);
+    const scale = mercatorPerMeter(lat);
+    for (let i = 0; i < n; i++) {
+      const lng = (minX + ((i + 0.5) / n) * size) * 360 - 180;
+      const h = (query(lng, lat) ?? 0) * scale;
+      heights[j * n + i] = h;
+      lo = Math.min(lo, h);
+      hi = Math.max(hi, h);
+    }
+  }
+  const range = hi - lo;
+  const data = new Uint8Array(n * n);
+  if (range > 0) {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.round(((heights[i]! - lo) / range) * 255);
+    }
+  }
+  return { minX, minY, size, base: lo, range, data };
+}
+
+/**
+ * Whether a heightmap still serves a footprint: it covers all of it, and
+ * the footprint has not shrunk (zooming in) so far that the grid looks
+ * coarse.
+ */
+export function terrainCovers(
+  heightmap: TerrainHeightmap,
+  rect: SpawnRect,
+): boolean {
+  const { minX, minY, size } = heightmap;
+  return (
+    rect.minX >= minX &&
+    rect.minY >= minY &&
+    rect.maxX <= minX + size &&
+    rect.maxY <= minY + size &&
+    footprintExtent(rect) * TERRAIN_COVERAGE * 2 > size
+  );
+}
+
+/**
+ * Ground altitude at a mercator position, bilinear and clamped to the grid
+ * edge like the GPU sampler. 0 without a heightmap.
+ */
+export function sampleTerrain(
+  heightmap: TerrainHeightmap | null,
+  x: number,
+  y: number,
+): number {
+  if (!heightmap) return 0;
+  const n = TERRAIN_GRID_SIZE;
+  const gx = ((x - heightmap.minX) / heightmap.size) * n - 0.5;
+  const gy = ((y - heightmap.minY) / heightmap.size) * n - 0.5;
+  const i0 = Math.max(0, Math.min(n - 1, Math.floor(gx)));
+  const j0 = Math.max(0, Math.min(n - 1, Math.floor(gy)));
+  const i1 = Math.min(n - 1, i0 + 1);
+  const j1 = Math.min(n - 1, j0 + 1);
+  const tx = Math.max(0, Math.min(1, gx - i0));
+  const ty = Math.max(0, Math.min(1, gy - j0));
+  const d = heightmap.data;
+  const top = d[j0 * n + i0]! * (1 - tx) + d[j0 * n + i1]! * tx;
+  const bottom = d[j1 * n + i0]! * (1 - tx) + d[j1 * n + i1]! * tx;
+  return (
+    heightmap.base + ((top * (1 - ty) + bottom * ty) / 255) * heightmap.range
+  );
+}
@@ -4,6 +4,12 @@ interface TslNode {
   mul(other: TslNode | number): TslNode;
   div(other: TslNode | number): TslNode;
   lessThan(other: TslNode | number): TslNode;
+  greaterThan(other: TslNode | number): TslNode;
+  greaterThanEqual(other: TslNode | number): TslNode;
+  mod(other: TslNode | number): TslNode;
+  floor(): TslNode;
+  assign(value: TslNode): void;
+  toVar(): TslNode;
   saturate(): TslNode;
   distance(other: TslNode | number): TslNode;
   toAttribute(): TslNode;
@@ -12,6 +18,7 @@ interface TslNode {
   y: TslNode;
   z: TslNode;
   w: TslNode;
+  xyz: TslNode;
 }
 
 interface TslWritableElement extends TslNode {
@@ -21,10 +28,20 @@ interface TslWritableElement extends TslNode {
   w: TslNode;
 }
 
+interface TslStorageNode extends TslNode {
+  /** The underlying storage buffer attribute */
+  value: object;
+  toAtomic(): TslStorageNode;
+}
+
 interface TslUniform<T> extends TslWritableElement {
   value: T;
 }
 
+interface TslTextureNode extends TslNode {
+  value: import('three/webgpu').Texture;
+}
+
 interface TslNodeWithCompute extends TslNode {
   compute(count: number): TslComputePipeline;
 }
@@ -53,6 +70,15 @@ declare module 'three/webgpu' {
     set(x: number, y: number, z: number): this;
   }
 
+  class Vector4 {
+    constructor(x?: number, y?: number, z?: number, w?: number);
+    x: number;
+    y: number;
+    z: number;
+    w: number;
+    set(x: number, y: number, z: number, w: number): this;
+  }
+
   class Matrix4 {
     constructor();
     elements: number[];
@@ -70,6 +96,42 @@ declare module 'three/webgpu' {
     setRGB(r: number, g: number, b: number): this;
   }
 
+  const RedFormat: number;
+  const RGFormat: number;
+  const RGBAFormat: number;
+  const UnsignedByteType: number;
+  const LinearFilter: number;
+  const RepeatWrapping: number;
+  const LinearSRGBColorSpace: string;
+  const SRGBColorSpace: string;
+
+  class Texture {
+    constructor(image?: ImageBitmap);
+    flipY: boolean;
+    colorSpace: string;
+    magFilter: number;
+    minFilter: number;
+    wrapS: number;
+    wrapT: number;
+    needsUpdate: boolean;
+    dispose(): void;
+  }
+
+  class DataTexture extends Texture {
+    constructor(
+      data: ArrayBufferView | null,
+      width: number,
+      height: number,
+      format?: number,
+      type?: number,
+    );
+    image: { data: ArrayBufferView; width: number; height: number };
+  }
+
+  class StorageTexture extends Texture {
+    constructor(width?: number, height?: number);
+  }
+
   class BufferGeometry {
     dispose(): void;
   }
@@ -83,7 +145,12 @@ declare module 'three/webgpu' {
   }
 
   class PlaneGeometry extends BufferGeometry {
-    constructor(width?: number, height?: number);
+    constructor(
+      width?: number,
+      height?: number,
+      widthSegments?: number,
+      heightSegments?: number,
+    );
   }
 
   class Material {
@@ -97,7 +164,9 @@ declare module 'three/webgpu' {
       depthTest?: boolean;
     });
     positionNode: TslNode | null;
+    vertexNode: TslNode | null;
     colorNode: TslNode | null;
+    alphaTest: number;
   }
 
   class Mesh {
@@ -131,9 +200,19 @@ declare module 'three/webgpu' {
       antialias?: boolean;
       alpha?: boolean;
     });
+    autoClear: boolean;
+    outputColorSpace: string;
+    onDeviceLost: (info: {
+      api: string;
+      message: string;
+      reason: string | null;
+    }) => void;
     init(): Promise<void>;
+    clear(): void;
+    setViewport(x: number, y: number, width: number, height: number): void;
     render(scene: Scene, camera: PerspectiveCamera): void;
-    compute(pipeline: TslComputePipeline): void;
+    compute(pipeline: TslComputePipeline, dispatchSize?: number): void;
+    getArrayBufferAsync(attribute: object): Promise<ArrayBuffer>;
     setSize(width: number, height: number): void;
     setClearColor(color: number, alpha: number): void;
     setPixelRatio(ratio: number): void;
@@ -142,11 +221,12 @@ declare module 'three/webgpu' {
 }
 
 declare module 'three/tsl' {
-  import type { Vector2, Vector3, Color } from 'three/webgpu';
+  import type { Vector2, Vector3, Vector4, Color, Texture } from 'three/webgpu';
 
   export function Fn(fn: () => void): TslFnCallable;
-  export function float(value: number): TslNode;
-  export function uint(value: number): TslNode;
+  export function float(value: TslNode | number): TslNode;
+  export function uint(value: TslNode | number): TslNode;
+  export function vec2(x: TslNode | number, y?: TslNode | number): TslNode;
   export function vec3(
     x: TslNode | number,
     y?: TslNode | number,
@@ -162,22 +242,56 @@ declare module 'three/tsl' {
   export const instanceIndex: TslNode;
   export const positionLocal: TslNode;
   export const instanceUV: TslNode;
-  export function instancedArray(count: number, type: string): TslNode;
+  export function instancedArray(count: number, type: string): TslStorageNode;
   export function uniform(value: Vector2): TslUniform<Vector2>;
   export function uniform(value: Vector3): TslUniform<Vector3>;
+  export function uniform(value: Vector4): TslUniform<Vector4>;
   export function uniform(value: Color): TslUniform<Color>;
   export function uniform(
     value: import('three/webgpu').Matrix4,
   ): TslUniform<import('three/webgpu').Matrix4>;
-  export function uniform(value: number): TslUniform<number>;
+  export function uniform(value: number, type?: 'uint'): TslUniform<number>;
   export function hash(seed: TslNode): TslNode;
   export function If(condition: TslNode, thenFn: () => void): void;
-  export function color(hex: number): TslNode;
   export const screenUV: TslNode;
+  export const viewportUV: TslNode;
   export function uv(): TslNode;
   export function smoothstep(
     edge0: TslNode | number,
     edge1: TslNode | number,
     x: TslNode | number,
   ): TslNode;
+  export function mix(
+    a: TslNode | number,
+    b: TslNode | number,
+    t: TslNode | number,
+  ): TslNode;
+  export function max(a: TslNode | number, b: TslNode | number): TslNode;
+  export function min(a: TslNode | number, b: TslNode | number): TslNode;
+  export function length(v: TslNode): TslNode;
+  export function step(edge: TslNode | number, x: TslNode | number): TslNode;
+  export function texture(value: Texture, uv?: TslNode): TslTextureNode;
+  export function varying(node: TslNode): TslNode;
+  export function normalize(v: TslNode): TslNode;
+  export function mod(a: TslNode, b: TslNode | number): TslNode;
+  export function clamp(
+    value: TslNode,
+    low: TslNode | number,
+    high: TslNode | number,
+  ): TslNode;
+  export function abs(value: TslNode): TslNode;
+  export function fract(value: TslNode): TslNode;
+  export function sin(value: TslNode): TslNode;
+  export function cos(value: TslNode): TslNode;
+  export function atan(y: TslNode, x?: TslNode): TslNode;
+  export function exp(value: TslNode): TslNode;
+  export function uvec2(x: TslNode, y: TslNode): TslNode;
+  export function atomicAdd(pointer: TslNode, value: TslNode): TslNode;
+  export function atomicLoad(pointer: TslNode): TslNode;
+  export function atomicStore(pointer: TslNode, value: TslNode): TslNode;
+  export function textureStore(
+    value: Texture,
+    uv: TslNode,
+    store: TslNode,
+  ): TslNode;
 }
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { easeInOut, lerpAzimuth } from './transition';
+
+describe('lerpAzimuth', () => {
+  test('wraps through north the short way', () => {
+    expect(lerpAzimuth(350, 10, 0.5)).toBeCloseTo(0);
+    expect(lerpAzimuth(10, 350, 0.5)).toBeCloseTo(0);
+    expect(lerpAzimuth(10, 350, 0.25)).toBeCloseTo(5);
+    expect(lerpAzimuth(350, 10, 0.25)).toBeCloseTo(355);
+  });
+
+  test('keeps the result in [0, 360)', () => {
+    expect(lerpAzimuth(350, 10, 1)).toBeCloseTo(10);
+    expect(lerpAzimuth(10, 350, 1)).toBeCloseTo(350);
+    expect(lerpAzimuth(-30, -30, 0)).toBeCloseTo(330);
+    expect(lerpAzimuth(720, 90, 0)).toBeCloseTo(0);
+  });
+
+  test('blends straight between nearby angles', () => {
+    expect(lerpAzimuth(90, 180, 0.5)).toBeCloseTo(135);
+    expect(lerpAzimuth(180, 90, 0.5)).toBeCloseTo(135);
+  });
+});
+
+describe('easeInOut', () => {
+  test('starts and ends on the endpoints, symmetric about the middle', () => {
+    expect(easeInOut(0)).toBe(0);
+    expect(easeInOut(1)).toBe(1);
+    expect(easeInOut(0.5)).toBe(0.5);
+    expect(easeInOut(0.25) + easeInOut(0.75)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Animated transitions between numeric layer settings.
+ *
+ * A transition captures the current values of the options it changes and
+ * blends them towards the targets once per frame; the layer applies the
+ * blended values the same way its setters would.
+ */
+import { lerp } from './shared';
+
+/** Options that can be animated with `transitionTo()` */
+export interface TransitionValues {
+  density?: number;
+  intensity?: number;
+  flakeSize?: number;
+  opacity?: number;
+  /** Azimuth blends through the shortest angle, speed linearly */
+  direction?: [number, number];
+  fogOpacity?: number;
+}
+
+export interface TransitionOptions {
+  /** Duration in milliseconds (default: 1000) */
+  duration?: number;
+  /** Maps linear progress 0–1 to eased progress (default: smoothstep) */
+  easing?: (t: number) => number;
+  /** Cancels the transition when aborted */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_TRANSITION_MS = 1000;
+
+/** Smoothstep easing, as used for the precipitation cross-fade. */
+export function easeInOut(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/** Blend two azimuths through the shortest angle, result in [0, 360). */
+export function lerpAzimuth(from: number, to: number, t: number): number {
+  const delta = ((((to - from) % 360) + 540) % 360) - 180;
+  const azimuth = (from + delta * t) % 360;
+  return azimuth < 0 ? azimuth + 360 : azimuth;
+}
+
+/** Values at eased progress `t`, for the options present in `to` only. */
+export function mixTransitionValues(
+  from: Required<TransitionValues>,
+  to: TransitionValues,
+  t: number,
+): TransitionValues {
+  const values: TransitionValues = {};
+  if (to.density !== undefined) {
+    values.density = lerp(from.density, to.density, t);
+  }
+  if (to.intensity !== undefined) {
+    values.intensity = lerp(from.intensity, to.intensity, t);
+  }
+  if (to.flakeSize !== undefined) {
+    values.flakeSize = lerp(from.flakeSize, to.flakeSize, t);
+  }
+  if (to.opacity !== undefined) {
+    values.opacity = lerp(from.opacity, to.opacity, t);
+  }
+  if (to.direction !== undefined) {
+    values.direction = [
+      lerpAzimuth(from.direction[0], to.direction[0], t),
+      lerp(from.direction[1], to.direction[1], t),
+    ];
+  }
+  if (to.fogOpacity !== undefined) {
+    values.fogOpacity = lerp(from.fogOpacity, to.fogOpacity, t);
+  }
+  return values;
+}
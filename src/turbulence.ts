@@ -0,0 +1,184 @@
+/**
+ * Turbulence, flutter and gusts.
+ *
+ * Eddies are the curl of a potential made of a few travelling sine waves,
+ * so they swirl the flakes about without bunching them up (the flow has no
+ * divergence) for a handful of sin/cos per particle. The waves make whole
+ * cycles over TURBULENCE_PERIOD eddy sizes, so the field repeats exactly and
+ * the backends evaluate it from an origin near the view, which keeps
+ * float32 precision at any zoom. Flakes ease into the eddies' velocity
+ * rather than following it outright, and each also flutters side to side
+ * at its own rate. Gusts swing the wind speed with two incommensurate
+ * sines of simulation time.
+ */
+import { FLUTTER_STREAM, particleRandom } from './shared';
+import type { SnowUnits } from './units';
+
+export interface TurbulenceOptions {
+  /**
+   * Eddy and flutter speed in px/s like `direction`'s, or m/s with metric
+   * units (default: 30 px/s, 2 m/s)
+   */
+  strength?: number;
+  /** Eddy size in CSS pixels, or meters (default: 300 px, 100 m) */
+  scale?: number;
+}
+
+export interface GustOptions {
+  /** Gusts per second (default: 0.1) */
+  frequency?: number;
+  /** How far gusts swing the wind speed, as a share of it, 0–1 (default: 0.5) */
+  amplitude?: number;
+}
+
+const TURBULENCE_DEFAULTS: Record<SnowUnits, Required<TurbulenceOptions>> = {
+  pixels: { strength: 30, scale: 300 },
+  metric: { strength: 2, scale: 100 },
+};
+
+/** Fill in defaults for the units; false / undefined turns turbulence off. */
+export function resolveTurbulence(
+  options: boolean | TurbulenceOptions | undefined,
+  units: SnowUnits,
+): Required<TurbulenceOptions> | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  const defaults = TURBULENCE_DEFAULTS[units];
+  return {
+    strength: Math.max(0, o.strength ?? defaults.strength),
+    scale: Math.max(1e-3, o.scale ?? defaults.scale),
+  };
+}
+
+/** Fill in defaults; false / undefined turns gusts off. */
+export function resolveGusts(
+  options: boolean | GustOptions | undefined,
+): Required<GustOptions> | null {
+  if (!options) return null;
+  const o = options === true ? {} : options;
+  return {
+    frequency: Math.max(0, o.frequency ?? 0.1),
+    amplitude: Math.max(0, Math.min(1, o.amplitude ?? 0.5)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Shared constants (both backends build the same motion from these)
+// ---------------------------------------------------------------------------
+
+/** Eddy sizes over which the eddy field repeats */
+export const TURBULENCE_PERIOD = 5;
+
+/**
+ * Waves of the eddy potential: whole cycles across the period in x and y,
+ * and how fast each travels (radians per second of simulation time)
+ */
+export const EDDY_WAVES: readonly (readonly [number, number, number])[] = [
+  [5, 1, 0.31],
+  [-1, 5, -0.23],
+  [3, -4, 0.17],
+  [4, 3, -0.13],
+];
+
+/** Share of the gap to the eddies' velocity a flake closes each step */
+export const EDDY_RESPONSE = 0.05;
+
+/** Flutter rate range, cycles per second */
+export const FLUTTER_MIN_RATE = 0.5;
+export const FLUTTER_MAX_RATE = 1.5;
+
+/** Second gust wave: rate relative to the first, weight and phase */
+export const GUST_HARMONIC: readonly [number, number, number] = [2.3, 0.5, 1.3];
+
+// ---------------------------------------------------------------------------
+// Per-frame values and CPU evaluation
+// ---------------------------------------------------------------------------
+
+/** Turbulence in the backends' units for the current view */
+export interface TurbulenceFrame {
+  /** Mercator origin of the eddy field, a whole number of periods */
+  originX: number;
+  originY: number;
+  /** Eddy size, mercator units */
+  scale: number;
+  /** Eddy and flutter speed, mercator units per step */
+  speed: number;
+}
+
+/**
+ * Turbulence near a view point, given the mercator units per unit (see
+ * units.ts) and how far one unit per second moves a flake in a step.
+ */
+export function turbulenceFrame(
+  turbulence: Required<TurbulenceOptions>,
+  centerX: number,
+  centerY: number,
+  mercPerUnit: number,
+  perStep: number,
+): TurbulenceFrame {
+  const scale = turbulence.scale * mercPerUnit;
+  const period = scale * TURBULENCE_PERIOD;
+  return {
+    originX: Math.floor(centerX / period) * period,
+    originY: Math.floor(centerY / period) * period,
+    scale,
+    speed: turbulence.strength * perStep,
+  };
+}
+
+/**
+ * Eddy velocity at a position given in eddy sizes from the field's origin,
+ * at simulation time t (s), written to `out`; about unit speed.
+ */
+export function eddyVelocity(
+  x: number,
+  y: number,
+  t: number,
+  out: number[],
+): void {
+  let vx = 0;
+  let vy = 0;
+  const k = (2 * Math.PI) / TURBULENCE_PERIOD;
+  for (const [a, b, rate] of EDDY_WAVES) {
+    const c = Math.cos(k * (a * x + b * y) + rate * t);
+    // Curl of sin(phase) / |k|: along the wave's crest.
+    const norm = Math.hypot(a, b);
+    vx += (b / norm) * c;
+    vy -= (a / norm) * c;
+  }
+  const weight = 1 / Math.sqrt(EDDY_WAVES.length);
+  out[0] = vx * weight;
+  out[1] = vy * weight;
+}
+
+/**
+ * Flutter velocity of particle `index` at simulation time t (s), written to
+ * `out`; unit amplitude. Its direction, rate and phase come from the
+ * FLUTTER_STREAM streams.
+ */
+export function flutterVelocity(
+  index: number,
+  seed: number,
+  t: number,
+  out: number[],
+): void {
+  const angle = particleRandom(index, seed, FLUTTER_STREAM) * 2 * Math.PI;
+  const rate =
+    FLUTTER_MIN_RATE +
+    (FLUTTER_MAX_RATE - FLUTTER_MIN_RATE) *
+      particleRandom(index, seed, FLUTTER_STREAM + 1);
+  const phase = particleRandom(index, seed, FLUTTER_STREAM + 2);
+  const sway = Math.sin(2 * Math.PI * (rate * t + phase));
+  out[0] = Math.cos(angle) * sway;
+  out[1] = Math.sin(angle) * sway;
+}
+
+/** Wind speed multiplier at simulation time t (s). */
+export function gustFactor(gusts: Required<GustOptions>, t: number): number {
+  const [harmonic, weight, phase] = GUST_HARMONIC;
+  const cycle = 2 * Math.PI * gusts.frequency * t;
+  const swing =
+    (Math.sin(cycle) + weight * Math.sin(harmonic * cycle + phase)) /
+    (1 + weight);
+  return 1 + gusts.amplitude * swing;
+}
@@ -0,0 +1,30 @@
+/**
+ * Units for speeds and heights.
+ *
+ * With 'pixels' (the default) wind and fall speeds are CSS pixels per
+ * second at the current zoom, so the snow looks the same on screen at every
+ * zoom, and the particle volume is as tall as the view is wide. With
+ * 'metric' they are meters per second and the volume reaches up to a cloud
+ * base in meters, converted with the mercator scale at the map centre's
+ * latitude, so the snow moves at physical speeds at every zoom and place.
+ */
+import { mercatorPerMeter } from './shared';
+
+export type SnowUnits = 'pixels' | 'metric';
+
+/** Cloud base with metric units, meters above the ground */
+export const DEFAULT_CLOUD_BASE = 1000;
+
+/**
+ * Mercator units per unit of speed or length: a CSS pixel at this zoom, or
+ * a meter at this latitude.
+ */
+export function mercatorPerUnit(
+  units: SnowUnits,
+  zoom: number,
+  lat: number,
+): number {
+  return units === 'metric'
+    ? mercatorPerMeter(lat)
+    : 1 / (512 * Math.pow(2, zoom));
+}